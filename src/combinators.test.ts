@@ -1,36 +1,56 @@
 import { assertType, describe, expect, it } from 'vitest';
 import {
+    chain,
     choice,
+    commit,
     create,
+    define,
     exactly,
+    filter,
     first,
+    flatMap,
     fold,
     fold1,
     foldRight,
     foldRight1,
+    gen,
+    invoke,
+    label,
     last,
     lazy,
     left,
     lexeme,
+    located,
     many,
     many1,
     manyAtLeast,
     manyAtMost,
     manyBetween,
     map,
+    memo,
     middle,
+    not,
+    notFollowedBy,
     nth,
     optional,
     optionalSkip,
     optionalWith,
     peek,
+    recover,
+    refine,
     right,
+    sepBy,
+    sepBy1,
+    sepEndBy,
     sequence,
     token,
     until,
 } from './combinators';
-import { failure, success } from './results';
-import { Parser, Result } from './types';
+import { failure, isFailure, step, success } from './results';
+import { advance, cursorAt } from './cursor';
+import { literal, regex } from './terminals';
+import { Located, Parser, ParserFunction, Recovered, Result } from './types';
+import { run } from './core';
 
 const createTestParser = <T extends string | number>(tester: T) =>
     create<T>((input) => {
@@ -70,7 +90,7 @@ describe('combinators', () => {
             const parser2 = createTestParser('B');
             const parser = sequence(parser1, parser2);
             const result = parser('xxx');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<[unknown, 'B']>>(result);
         });
@@ -81,7 +101,7 @@ describe('combinators', () => {
             const parser3 = createTestParser('C');
             const parser = sequence(parser1, parser2, parser3);
             const result = parser('xxx');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<['A', unknown, 'C']>>(result);
         });
@@ -105,6 +125,56 @@ describe('combinators', () => {
         });
     });
 
+    describe('define', () => {
+        const parser = define<'A'>((cursor) =>
+            cursor.source[cursor.offset] === 'A'
+                ? step('A', advance(cursor, 1))
+                : failure(cursor.offset, 'A'),
+        );
+
+        it('should adapt the cursor result when called with a string', () => {
+            const result = parser('ABC');
+            expect(result).toEqual(['A', 'BC']);
+
+            assertType<Result<'A'>>(result);
+        });
+
+        it('should parse at the cursor position', () => {
+            expect(parser.parse?.(cursorAt('xxABC', 2))).toEqual([
+                'A',
+                cursorAt('xxABC', 3),
+            ]);
+            expect(parser.parse?.(cursorAt('xxABC', 1))).toEqual(
+                failure(1, 'A'),
+            );
+        });
+    });
+
+    describe('invoke', () => {
+        it('should run string based parsers on the remaining input', () => {
+            const parser = createTestParser('B');
+            const result = invoke(
+                (input: string) => parser(input),
+                cursorAt('ABC', 1),
+            );
+
+            expect(result).toEqual(['B', cursorAt('ABC', 2)]);
+        });
+
+        it('should shift failures of string based parsers to the cursor', () => {
+            const result = invoke(() => failure(1, 'C'), cursorAt('ABC', 1));
+
+            expect(result).toEqual(failure(2, 'C'));
+        });
+
+        it('should take null from string based parsers as a failure', () => {
+            const legacy = (() => null) as unknown as ParserFunction<string>;
+
+            expect(invoke(legacy, cursorAt('ABC', 1))).toEqual(failure(1));
+            expect(run(sequence(create(legacy)), 'y')).toBeNull();
+        });
+    });
+
     describe('lazy', () => {
         it('should defer parser creation', () => {
             const parser1 = createTestParser('A');
@@ -139,8 +209,8 @@ describe('combinators', () => {
                     }
 
                     const innerResult = paren(input.slice(1));
-                    if (!innerResult) {
-                        return failure();
+                    if (isFailure(innerResult)) {
+                        return innerResult;
                     }
 
                     const [innerValue, afterInner] = innerResult;
@@ -154,7 +224,7 @@ describe('combinators', () => {
                 // Try the recursive case first, then base case
                 return create<string>((input) => {
                     const recursiveResult = recursiveCase(input);
-                    if (recursiveResult) return recursiveResult;
+                    if (!isFailure(recursiveResult)) return recursiveResult;
                     return baseCase(input);
                 });
             });
@@ -168,7 +238,7 @@ describe('combinators', () => {
         it('should handle parser that fails', () => {
             const parser1 = create(() => failure());
             const result = parser1('goodbye');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
         });
     });
 
@@ -208,7 +278,7 @@ describe('combinators', () => {
                 () => failure(),
             );
             const result = parser('D');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<unknown>>(result);
         });
@@ -225,7 +295,7 @@ describe('combinators', () => {
         it('should handle empty choices', () => {
             const parser = choice();
             const result = parser('anything');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<unknown>>(result);
         });
@@ -259,7 +329,7 @@ describe('combinators', () => {
             const parser1 = create<string>(() => failure());
             const parser = map(parser1, (s) => s.toUpperCase());
             const result = parser('goodbye');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
         });
 
         it('should handle complex transformations', () => {
@@ -289,6 +359,170 @@ describe('combinators', () => {
         });
     });
 
+    describe('chain', () => {
+        const count = map(regex(/\d+/), Number);
+
+        it('should pick the next parser from the parsed value', () => {
+            const field = chain(left(count, literal(':')), (length) =>
+                regex(new RegExp(`[^]{${length}}`)),
+            );
+            const result = field('3:a:bcd');
+            expect(result).toEqual(['a:b', 'cd']);
+
+            assertType<Result<string>>(result);
+        });
+
+        it('should match closing tags to opening tags', () => {
+            const element = chain(
+                middle(literal('<'), regex(/[a-z]+/), literal('>')),
+                (name) => left(regex(/[^<]*/), literal(`</${name}>`)),
+            );
+
+            expect(element('<b>bold</b>!')).toEqual(['bold', '!']);
+            expect(invoke(element, cursorAt('<b>bold</i>'))).toEqual(
+                failure(7, '"</b>"'),
+            );
+        });
+
+        it('should run several steps in order', () => {
+            const parser = chain(
+                count,
+                (n) => exactly(literal('x'), n),
+                (xs) => map(literal('!'), () => xs.length),
+            );
+            const result = parser('2xx!');
+            expect(result).toEqual([2, '']);
+
+            assertType<Result<number>>(result);
+        });
+
+        it('should fail if the first parser fails', () => {
+            expect(chain(count, () => literal('x'))('a')).toEqual(
+                failure(0, '/\\d+/'),
+            );
+        });
+
+        it('should be available as flatMap', () => {
+            expect(flatMap).toBe(chain);
+        });
+    });
+
+    describe('gen', () => {
+        const ident = regex(/[a-z]+/);
+        const number = map(regex(/\d+/), Number);
+        const assignment = gen(function* () {
+            const name = yield* ident;
+            yield* literal('=');
+            const value = yield* number;
+            yield* literal(';');
+
+            return { name, value };
+        });
+
+        it('should run parsers in order and bind their values', () => {
+            const result = assignment('x=42;rest');
+            expect(result).toEqual([{ name: 'x', value: 42 }, 'rest']);
+
+            assertType<Result<{ name: string; value: number }>>(result);
+        });
+
+        it('should fail with the failure of the first failing parser', () => {
+            expect(invoke(assignment, cursorAt('x=y;'))).toEqual(
+                failure(2, '/\\d+/'),
+            );
+        });
+
+        it('should run the generator afresh on every parse', () => {
+            const result = many(assignment)('a=1;b=2;');
+
+            expect(result).toEqual([
+                [
+                    { name: 'a', value: 1 },
+                    { name: 'b', value: 2 },
+                ],
+                '',
+            ]);
+        });
+
+        it('should work with choice and sequence', () => {
+            const parser = sequence(
+                choice<unknown>(assignment, literal('skip;')),
+                assignment,
+            );
+
+            expect(parser('skip;y=3;')).toEqual([
+                ['skip;', { name: 'y', value: 3 }],
+                '',
+            ]);
+        });
+
+        it('should branch on parsed values', () => {
+            const quoted = gen(function* () {
+                const quote = yield* regex(/["']/);
+                const text = yield* regex(quote === '"' ? /[^"]*/ : /[^']*/);
+                yield* literal(quote);
+
+                return text;
+            });
+
+            expect(quoted(`"it's"`)).toEqual(["it's", '']);
+            expect(isFailure(quoted(`'a"`))).toBe(true);
+        });
+
+        it('should close the generator on failure', () => {
+            let closed = false;
+            const parser = gen(function* () {
+                try {
+                    return yield* literal('a');
+                } finally {
+                    closed = true;
+                }
+            });
+
+            parser('b');
+            expect(closed).toBe(true);
+        });
+    });
+
+    describe('filter', () => {
+        const word = regex(/[a-z]+/);
+        const identifier = filter(word, (w) => w !== 'if', 'identifier');
+
+        it('should keep accepted values', () => {
+            expect(identifier('iffy')).toEqual(['iffy', '']);
+        });
+
+        it('should fail at the start of rejected values', () => {
+            expect(invoke(identifier, cursorAt(' if', 1))).toEqual(
+                failure(1, 'identifier'),
+            );
+            expect(filter(word, () => false)('a')).toEqual(failure(0));
+        });
+    });
+
+    describe('refine', () => {
+        it('should narrow the value with a type guard', () => {
+            const sign = refine(
+                regex(/[+-]/),
+                (s): s is '+' | '-' => s === '+' || s === '-',
+            );
+            const result = sign('-1');
+            expect(result).toEqual(['-', '1']);
+
+            assertType<Result<'+' | '-'>>(result);
+        });
+
+        it('should fail when the guard rejects the value', () => {
+            const even = refine(
+                map(regex(/\d/), Number),
+                (n): n is 0 | 2 | 4 | 6 | 8 => n % 2 === 0,
+                'even digit',
+            );
+
+            expect(even('3')).toEqual(failure(0, 'even digit'));
+        });
+    });
+
     describe('many', () => {
         it('should parse zero occurrences', () => {
             const parser1 = create(() => failure());
@@ -343,7 +577,7 @@ describe('combinators', () => {
         it('should fail on zero occurrences', () => {
             const parser = many1(parser1);
             const result = parser('BCD');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'[]>>(result);
         });
@@ -367,7 +601,7 @@ describe('combinators', () => {
         it('should fail on empty input', () => {
             const parser = many1(parser1);
             const result = parser('');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'[]>>(result);
         });
@@ -386,7 +620,7 @@ describe('combinators', () => {
             it('should fail if fewer than n occurrences', () => {
                 const parser = exactly(parser1, 3);
                 const result = parser('AABCD');
-                expect(result).toBeNull();
+                expect(isFailure(result)).toBe(true);
 
                 assertType<Result<'A'[]>>(result);
             });
@@ -410,7 +644,7 @@ describe('combinators', () => {
             it('should fail on empty input when count > 0', () => {
                 const parser = exactly(parser1, 2);
                 const result = parser('');
-                expect(result).toBeNull();
+                expect(isFailure(result)).toBe(true);
 
                 assertType<Result<'A'[]>>(result);
             });
@@ -483,7 +717,7 @@ describe('combinators', () => {
         it('should fail if fewer than n occurrences', () => {
             const parser = manyAtLeast(parser1, 3);
             const result = parser('AABCD');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'[]>>(result);
         });
@@ -543,7 +777,7 @@ describe('combinators', () => {
         it('should fail if fewer than minimum', () => {
             const parser = manyBetween(parser1, 3, 5);
             const result = parser('AABCD');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'[]>>(result);
         });
@@ -557,6 +791,115 @@ describe('combinators', () => {
         });
     });
 
+    describe('sepBy', () => {
+        const item = createTestParser('A');
+        const comma = createTestParser(',');
+
+        it('should parse items separated by the separator', () => {
+            const result = sepBy(item, comma)('A,A,AB');
+            expect(result).toEqual([['A', 'A', 'A'], 'B']);
+
+            assertType<Result<'A'[]>>(result);
+        });
+
+        it('should parse zero items', () => {
+            expect(sepBy(item, comma)('B')).toEqual([[], 'B']);
+            expect(sepBy(item, comma)('')).toEqual([[], '']);
+        });
+
+        it('should leave a trailing separator by default', () => {
+            expect(sepBy(item, comma)('A,A,')).toEqual([['A', 'A'], ',']);
+        });
+
+        it('should consume an allowed trailing separator', () => {
+            const parser = sepBy(item, comma, { trailing: 'allowed' });
+
+            expect(parser('A,A,B')).toEqual([['A', 'A'], 'B']);
+            expect(parser('A,AB')).toEqual([['A', 'A'], 'B']);
+        });
+
+        it('should require a trailing separator', () => {
+            const parser = sepBy(item, comma, { trailing: 'required' });
+
+            expect(parser('A,A,B')).toEqual([['A', 'A'], 'B']);
+            expect(parser('B')).toEqual([[], 'B']);
+            expect(isFailure(parser('A,AB'))).toBe(true);
+        });
+
+        it('should respect min and max counts', () => {
+            const parser = sepBy(item, comma, { min: 2, max: 3 });
+
+            expect(isFailure(parser('A,B'))).toBe(true);
+            expect(isFailure(parser('AB'))).toBe(true);
+            expect(parser('A,A')).toEqual([['A', 'A'], '']);
+            expect(parser('A,A,A,A')).toEqual([['A', 'A', 'A'], ',A']);
+        });
+
+        it('should keep separators in the result', () => {
+            const result = sepBy(item, comma, {
+                keep: true,
+                trailing: 'allowed',
+            })('A,A,');
+            expect(result).toEqual([['A', ',', 'A', ','], '']);
+
+            assertType<Result<('A' | ',')[]>>(result);
+        });
+
+        it('should report the missing separator or item', () => {
+            const parser = sepBy(literal('a'), literal(','), { min: 2 });
+
+            expect(invoke(parser, cursorAt('a;'))).toEqual(failure(1, '","'));
+            expect(invoke(parser, cursorAt('a,b'))).toEqual(failure(2, '"a"'));
+        });
+
+        it('should propagate fatal failures', () => {
+            const pair = sequence(item, commit(createTestParser('B')));
+            const result = sepBy(pair, comma)('AB,AC');
+
+            expect(result).toEqual({ ...failure(4), fatal: true });
+        });
+
+        it('should stop on items that consume nothing', () => {
+            const empty = createTestParser('');
+            const result = sepBy(empty, createTestParser(''))('A');
+
+            expect(result).toEqual([[''], 'A']);
+        });
+    });
+
+    describe('sepBy1', () => {
+        const item = createTestParser('A');
+        const comma = createTestParser(',');
+
+        it('should require at least one item', () => {
+            expect(isFailure(sepBy1(item, comma)('B'))).toBe(true);
+            expect(sepBy1(item, comma)('A,AB')).toEqual([['A', 'A'], 'B']);
+        });
+
+        it('should keep a larger min', () => {
+            const parser = sepBy1(item, comma, { min: 3 });
+
+            expect(isFailure(parser('A,A'))).toBe(true);
+            expect(parser('A,A,A')).toEqual([['A', 'A', 'A'], '']);
+        });
+    });
+
+    describe('sepEndBy', () => {
+        const item = createTestParser('A');
+        const comma = createTestParser(',');
+
+        it('should allow a trailing separator', () => {
+            expect(sepEndBy(item, comma)('A,A,B')).toEqual([['A', 'A'], 'B']);
+            expect(sepEndBy(item, comma)('A,AB')).toEqual([['A', 'A'], 'B']);
+        });
+
+        it('should accept other trailing policies', () => {
+            const parser = sepEndBy(item, comma, { trailing: 'forbidden' });
+
+            expect(parser('A,A,')).toEqual([['A', 'A'], ',']);
+        });
+    });
+
     describe('optional', () => {
         const parser1 = createTestParser('A');
 
@@ -658,7 +1001,7 @@ describe('combinators', () => {
         it('should fail if first parser fails', () => {
             const parser = left(parser1, parser2);
             const result = parser('goodbye world');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'>>(result);
         });
@@ -666,7 +1009,7 @@ describe('combinators', () => {
         it('should fail if second parser fails', () => {
             const parser = left(parser1, parser2);
             const result = parser('hello universe');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'>>(result);
         });
@@ -687,7 +1030,7 @@ describe('combinators', () => {
         it('should fail if first parser fails', () => {
             const parser = right(parser1, parser2);
             const result = parser('goodbye world');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'B'>>(result);
         });
@@ -695,7 +1038,7 @@ describe('combinators', () => {
         it('should fail if second parser fails', () => {
             const parser = right(parser1, parser2);
             const result = parser('hello universe');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'B'>>(result);
         });
@@ -717,7 +1060,7 @@ describe('combinators', () => {
         it('should fail if first parser fails', () => {
             const parser = middle(parser1, parser2, parser3);
             const result = parser('[content)');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'B'>>(result);
         });
@@ -725,7 +1068,7 @@ describe('combinators', () => {
         it('should fail if middle parser fails', () => {
             const parser = middle(parser1, parser2, parser3);
             const result = parser('(wrong)');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'B'>>(result);
         });
@@ -733,7 +1076,7 @@ describe('combinators', () => {
         it('should fail if last parser fails', () => {
             const parser = middle(parser1, parser2, parser3);
             const result = parser('(content]');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'B'>>(result);
         });
@@ -858,7 +1201,7 @@ describe('combinators', () => {
         it('should fail when terminator is never found and parser fails', () => {
             const parser = until(parser1, parser2);
             const result = parser('AAAA');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
         });
     });
 
@@ -894,7 +1237,7 @@ describe('combinators', () => {
             const parser1 = createTestParser('A');
             const parser = lexeme(parser1);
             const result = parser('B');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'>>(result);
         });
@@ -937,7 +1280,7 @@ describe('combinators', () => {
         it('should fail when symbol does not match', () => {
             const parser = token('while');
             const result = parser('if (condition)');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'while'>>(result);
         });
@@ -1068,7 +1411,7 @@ describe('combinators', () => {
             const parser1 = create<number>(() => failure());
             const parser = fold1(parser1, 42, (acc, digit) => acc + digit);
             const result = parser('ABC');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<number>>(result);
         });
@@ -1187,7 +1530,7 @@ describe('combinators', () => {
                     (acc, digit) => acc + digit,
                 );
                 const result = parser('ABC');
-                expect(result).toBeNull();
+                expect(isFailure(result)).toBe(true);
 
                 assertType<Result<number>>(result);
             });
@@ -1208,7 +1551,7 @@ describe('combinators', () => {
             const parser1 = createTestParser('A');
             const parser = peek(parser1);
             const result = parser('BC');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'>>(result);
         });
@@ -1217,9 +1560,300 @@ describe('combinators', () => {
             const parser1 = createTestParser('A');
             const parser = peek(parser1);
             const result = parser('');
-            expect(result).toBeNull();
+            expect(isFailure(result)).toBe(true);
 
             assertType<Result<'A'>>(result);
         });
     });
+
+    describe('not', () => {
+        it('should succeed without consuming where the parser fails', () => {
+            const result = not(createTestParser('A'))('BC');
+            expect(result).toEqual([null, 'BC']);
+
+            assertType<Result<null>>(result);
+        });
+
+        it('should fail where the parser succeeds', () => {
+            const result = invoke(not(literal('A')), cursorAt('xAB', 1));
+            expect(result).toEqual(failure(1));
+        });
+    });
+
+    describe('notFollowedBy', () => {
+        const keyword = notFollowedBy(literal('if'), regex(/[a-z]/));
+
+        it('should parse when the lookahead does not match', () => {
+            expect(keyword('if (x)')).toEqual(['if', ' (x)']);
+            expect(keyword('if')).toEqual(['if', '']);
+
+            assertType<Parser<'if'>>(keyword);
+        });
+
+        it('should fail when the lookahead matches', () => {
+            expect(keyword('iffy')).toEqual(failure(2));
+        });
+
+        it('should let choice fall back to other alternatives', () => {
+            const parser = choice<string>(keyword, regex(/[a-z]+/));
+
+            expect(parser('iffy')).toEqual(['iffy', '']);
+        });
+    });
+
+    describe('located', () => {
+        it('should wrap the value with its start and end position', () => {
+            const parser = right(
+                createTestParser('A'),
+                located(createTestParser('BC')),
+            );
+            const result = parser('ABCD');
+            expect(result).toEqual([
+                {
+                    value: 'BC',
+                    start: { offset: 1, line: 1, column: 2 },
+                    end: { offset: 3, line: 1, column: 4 },
+                },
+                'D',
+            ]);
+
+            assertType<Result<Located<'BC'>>>(result);
+        });
+
+        it('should track lines and columns across newlines', () => {
+            const parser = many(located(left(regex(/[a-z]+/), regex(/\n?/))));
+            const result = parser('ab\ncde\nf');
+            expect(result).toEqual([
+                [
+                    {
+                        value: 'ab',
+                        start: { offset: 0, line: 1, column: 1 },
+                        end: { offset: 3, line: 2, column: 1 },
+                    },
+                    {
+                        value: 'cde',
+                        start: { offset: 3, line: 2, column: 1 },
+                        end: { offset: 7, line: 3, column: 1 },
+                    },
+                    {
+                        value: 'f',
+                        start: { offset: 7, line: 3, column: 1 },
+                        end: { offset: 8, line: 3, column: 2 },
+                    },
+                ],
+                '',
+            ]);
+        });
+
+        it('should fail if the underlying parser fails', () => {
+            const parser = located(createTestParser('A'));
+            const result = parser('B');
+            expect(isFailure(result)).toBe(true);
+        });
+    });
+
+    describe('memo', () => {
+        it('should reuse the result at the same position', () => {
+            let calls = 0;
+            const parser1 = memo(
+                create<'A'>((input) => {
+                    calls++;
+
+                    return input.startsWith('A')
+                        ? success('A', input.slice(1))
+                        : failure();
+                }),
+                'a',
+            );
+            const parser = choice<unknown>(
+                sequence(parser1, createTestParser('B')),
+                sequence(parser1, createTestParser('C')),
+            );
+            const result = parser('AC');
+            expect(result).toEqual([['A', 'C'], '']);
+            expect(calls).toBe(1);
+        });
+
+        it('should not cache across separate parses', () => {
+            let calls = 0;
+            const parser = memo(
+                create<'A'>(() => {
+                    calls++;
+
+                    return success('A', '');
+                }),
+            );
+            parser('A');
+            parser('A');
+            expect(calls).toBe(2);
+        });
+    });
+
+    describe('label', () => {
+        const identifier = label(regex(/[a-z]+/), 'identifier');
+
+        it('should parse like the underlying parser', () => {
+            const result = identifier('abc1');
+            expect(result).toEqual(['abc', '1']);
+
+            assertType<Result<string>>(result);
+        });
+
+        it('should expect the label when nothing was consumed', () => {
+            const parser = choice(identifier, regex(/\d+/));
+            const result = parser('!');
+            expect(result).toEqual(failure(0, 'identifier', '/\\d+/'));
+        });
+
+        it('should keep failures after consumed input', () => {
+            const parser = label(
+                sequence(createTestParser('A'), createTestParser('B')),
+                'pair',
+            );
+            const result = parser('AC');
+            expect(result).toEqual(failure(1));
+        });
+
+        it('should name the parser', () => {
+            expect(identifier.displayName).toBe('identifier');
+        });
+    });
+
+    describe('commit', () => {
+        const statement = choice<unknown>(
+            sequence(
+                createTestParser('if'),
+                commit(sequence(createTestParser('('), createTestParser(')'))),
+            ),
+            createTestParser('iffy'),
+        );
+
+        it('should parse like the underlying parser', () => {
+            const result = statement('if()');
+            expect(result).toEqual([['if', ['(', ')']], '']);
+        });
+
+        it('should mark failures as fatal', () => {
+            const result = commit(createTestParser('A'))('B');
+            expect(result).toEqual({ ...failure(0), fatal: true });
+        });
+
+        it('should stop choice from trying further alternatives', () => {
+            const result = statement('iffy');
+            expect(result).toEqual({ ...failure(2), fatal: true });
+        });
+
+        it('should propagate through many, optional and until', () => {
+            const fatal = { ...failure(1), fatal: true };
+            const pair = sequence(
+                createTestParser('A'),
+                commit(createTestParser('B')),
+            );
+
+            expect(many(pair)('ABAC')).toEqual({ ...failure(3), fatal: true });
+            expect(optional(pair)('AC')).toEqual(fatal);
+            expect(optionalSkip(pair)('AC')).toEqual(fatal);
+            expect(optionalWith(pair, ['A', 'B'])('AC')).toEqual(fatal);
+            expect(until(pair, createTestParser('.'))('ABAC')).toEqual({
+                ...failure(3),
+                fatal: true,
+            });
+        });
+
+        it('should keep backtracking for failures before the commit', () => {
+            const result = statement('ix');
+            expect(isFailure(result)).toBe(true);
+            expect(result).not.toHaveProperty('fatal', true);
+        });
+    });
+
+    describe('recover', () => {
+        const statement = recover(
+            sequence(regex(/[a-z]+/), literal('=1;')),
+            literal(';'),
+        );
+
+        it('should parse like the underlying parser', () => {
+            const result = invoke(statement, cursorAt('a=1;'));
+            expect(result).toEqual(step(['a', '=1;'], cursorAt('a=1;', 4)));
+        });
+
+        it('should skip past the sync parser and return an error node', () => {
+            const result = invoke(statement, cursorAt('a=2;b=1;'));
+            if (isFailure(result)) {
+                throw new Error('expected recovery');
+            }
+
+            const [node, rest] = result;
+            expect(node).toMatchObject({
+                skipped: 'a=2;',
+                error: { offset: 1, expected: ['"=1;"'] },
+            });
+            expect(rest.offset).toEqual(4);
+            expect(rest.diagnostics?.error).toBe((node as Recovered).error);
+        });
+
+        it('should skip to the end without a sync match', () => {
+            const result = invoke(statement, cursorAt('a=2'));
+            expect(result).toMatchObject([{ skipped: 'a=2' }, { offset: 3 }]);
+        });
+
+        it('should keep going inside many and until', () => {
+            const input = 'a=1;b=;c=1;1;d=1;';
+            const manyResult = invoke(many(statement), cursorAt(input));
+            const untilResult = invoke(
+                until(statement, literal('}')),
+                cursorAt(`${input}}`),
+            );
+
+            for (const result of [manyResult, untilResult]) {
+                if (isFailure(result)) {
+                    throw new Error('expected recovery');
+                }
+
+                expect(result[0]).toHaveLength(5);
+                expect(result[0][1]).toMatchObject({ skipped: 'b=;' });
+                expect(result[0][3]).toMatchObject({ skipped: '1;' });
+                expect(result[1].diagnostics?.previous?.error.offset).toBe(5);
+            }
+        });
+
+        it('should build error nodes with toNode', () => {
+            const parser = recover(
+                literal('a'),
+                literal(';'),
+                (error, skipped) => `${skipped}@${error.offset}`,
+            );
+
+            expect(invoke(parser, cursorAt('b;'))).toEqual(
+                step('b;@0', {
+                    ...cursorAt('b;', 2),
+                    diagnostics: expect.anything(),
+                }),
+            );
+            assertType<Parser<string>>(parser);
+        });
+
+        it('should drop diagnostics of abandoned alternatives', () => {
+            const parser = choice<unknown>(
+                sequence(statement, literal('!')),
+                sequence(regex(/[a-z]+=2;/), literal('?')),
+            );
+
+            const result = invoke(parser, cursorAt('a=2;?'));
+            expect(result).toEqual(step(['a=2;', '?'], cursorAt('a=2;?', 5)));
+        });
+
+        it('should recover from fatal failures', () => {
+            const parser = recover(
+                sequence(literal('a'), commit(literal('b'))),
+                literal(';'),
+            );
+
+            expect(invoke(parser, cursorAt('ac;'))).toMatchObject([
+                { skipped: 'ac;', error: { offset: 1 } },
+                { offset: 3 },
+            ]);
+        });
+    });
 });
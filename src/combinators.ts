@@ -1,74 +1,199 @@
-import { Parser, Success } from './types';
-import { failure, success } from './results';
+import {
+    Cursor,
+    Failure,
+    Located,
+    Meta,
+    ParseError,
+    Parser,
+    ParserFunction,
+    Recovered,
+    Reply,
+    RuleFrame,
+    SepByOptions,
+    Separated,
+    Step,
+} from './types';
+import { failure, isFailure, merge, step } from './results';
 import { literal, regex } from './terminals';
+import { advance, begin, reach, remaining, same } from './cursor';
+import { locate } from './position';
+import { traced } from './trace';
+import { report } from './errors';
 
 export const sequence = <T extends readonly unknown[]>(
-    ...parsers: { [K in keyof T]: Parser<T[K]> }
+    ...parsers: { [K in keyof T]: ParserFunction<T[K]> }
 ) => {
-    return create<T>((input) => {
-        const results: unknown[] = [];
-        let remaining = input;
-
-        for (const parser of parsers) {
-            const result = parser(remaining);
-            if (!result) {
-                return failure();
+    return define<T>(
+        (cursor) => {
+            const results: unknown[] = [];
+            let current = cursor;
+
+            for (const parser of parsers) {
+                const result = invoke(parser, current);
+                if (isFailure(result)) {
+                    return result;
+                }
+
+                results.push(result[0]);
+                current = result[1];
             }
 
-            results.push(result[0]);
-            remaining = result[1];
-        }
+            return step(results as unknown as T, current);
+        },
+        'sequence',
+        { kind: 'sequence', children: parsers },
+    );
+};
+
+/**
+ * builds a parser from a function working on the cursor
+ * calling the parser with a string adapts it to the tuple based result
+ */
+export const define = <T>(
+    parse: (cursor: Cursor) => Reply<T>,
+    displayName?: string,
+    meta: Meta | undefined = displayName === undefined
+        ? undefined
+        : { kind: displayName },
+): Parser<T> => {
+    const parser = (input: string) => {
+        const result = parse(begin(input));
+
+        return isFailure(result)
+            ? result
+            : ([result[0], remaining(result[1])] as const);
+    };
 
-        return success(results as unknown as T, remaining);
+    const self: Parser<T> = Object.assign(parser, {
+        parse,
+        displayName,
+        meta,
+        // yield* on a parser inside gen runs it and returns its value
+        *[Symbol.iterator](): Generator<Parser<T>, T, unknown> {
+            return (yield self) as T;
+        },
     });
+
+    return self;
 };
 
-export const create = <T>(parserFn: Parser<T>): Parser<T> => {
-    return (input) => {
-        return parserFn(input);
-    };
+/**
+ * runs any parser at the cursor
+ * parsers without a cursor implementation are fed the remaining input
+ */
+export const invoke = <T>(
+    parser: ParserFunction<T>,
+    cursor: Cursor,
+): Reply<T> => {
+    if (parser.parse) {
+        const { context } = cursor;
+
+        return context?.trace && parser.displayName
+            ? traced(parser.parse, parser.displayName, cursor, context)
+            : parser.parse(cursor);
+    }
+
+    const input = remaining(cursor);
+    // older string parsers fail with null
+    const result = parser(input) ?? failure();
+    if (isFailure(result)) {
+        // the function sees all of the remaining input
+        reach(cursor, cursor.source.length + 1);
+
+        return { ...result, offset: cursor.offset + (result.offset ?? 0) };
+    }
+
+    const [value, rest] = result;
+    const consumed = input.length - rest.length;
+    reach(cursor, cursor.offset + consumed + 1);
+
+    return consumed >= 0 && input.endsWith(rest)
+        ? step(value, advance(cursor, consumed))
+        : step(value, { ...cursor, source: rest, offset: 0 });
 };
-export const lazy = <T>(thunk: () => Parser<T>) => {
-    return create<T>((input) => thunk()(input));
+
+/**
+ * wraps a parser or a plain string function
+ * a name describes the result as its own kind around the wrapped parser
+ */
+export const create = <T>(
+    parserFn: ParserFunction<T>,
+    name?: string,
+    meta: Meta | undefined = name === undefined
+        ? parserFn.meta
+        : { kind: name, children: [parserFn] },
+): Parser<T> => {
+    if (parserFn.parse) {
+        return define<T>(parserFn.parse, name ?? parserFn.displayName, meta);
+    }
+
+    return define<T>(
+        (cursor) => invoke(parserFn, cursor),
+        name ?? (parserFn.name || undefined),
+        meta,
+    );
 };
 
-export const choice = <T>(...parsers: Parser<T>[]) => {
-    return create<T>((input) => {
-        for (const parser of parsers) {
-            const result = parser(input);
-            if (result) {
-                return result;
+/**
+ * builds the parser on first use, so it can refer to parsers defined later
+ */
+export const lazy = <T>(thunk: () => ParserFunction<T>) => {
+    let parser: ParserFunction<T> | undefined;
+    const resolve = () => (parser ??= thunk());
+
+    return define<T>((cursor) => invoke(resolve(), cursor), undefined, {
+        kind: 'lazy',
+        get children() {
+            return [resolve()];
+        },
+    });
+};
+
+export const choice = <T>(...parsers: ParserFunction<T>[]) => {
+    return define<T>(
+        (cursor) => {
+            let error = failure(cursor.offset);
+
+            for (const parser of parsers) {
+                const result = invoke(parser, cursor);
+                if (!isFailure(result) || result.fatal) {
+                    return result;
+                }
+
+                error = merge(error, result);
             }
-        }
 
-        return failure();
-    });
+            return error;
+        },
+        'choice',
+        { kind: 'choice', children: parsers },
+    );
 };
 
 export function map<A, B>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform: (value: A) => B,
 ): Parser<B>;
 export function map<A, B, C>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
 ): Parser<C>;
 export function map<A, B, C, D>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
     transform3: (value: C) => D,
 ): Parser<D>;
 export function map<A, B, C, D, E>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
     transform3: (value: C) => D,
     transform4: (value: D) => E,
 ): Parser<E>;
 export function map<A, B, C, D, E, F>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
     transform3: (value: C) => D,
@@ -76,7 +201,7 @@ export function map<A, B, C, D, E, F>(
     transform5: (value: E) => F,
 ): Parser<F>;
 export function map<A, B, C, D, E, F, G>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
     transform3: (value: C) => D,
@@ -85,7 +210,7 @@ export function map<A, B, C, D, E, F, G>(
     transform6: (value: F) => G,
 ): Parser<G>;
 export function map<A, B, C, D, E, F, G, H>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
     transform3: (value: C) => D,
@@ -95,7 +220,7 @@ export function map<A, B, C, D, E, F, G, H>(
     transform7: (value: G) => H,
 ): Parser<H>;
 export function map<A, B, C, D, E, F, G, H, I>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
     transform3: (value: C) => D,
@@ -106,7 +231,7 @@ export function map<A, B, C, D, E, F, G, H, I>(
     transform8: (value: H) => I,
 ): Parser<I>;
 export function map<A, B, C, D, E, F, G, H, I, J>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     transform1: (value: A) => B,
     transform2: (value: B) => C,
     transform3: (value: C) => D,
@@ -118,180 +243,554 @@ export function map<A, B, C, D, E, F, G, H, I, J>(
     transform9: (value: I) => J,
 ): Parser<J>;
 export function map<A>(
-    parser: Parser<A>,
+    parser: ParserFunction<A>,
     ...transforms: Array<(value: unknown) => unknown>
 ) {
-    return create((input) => {
-        const result = parser(input);
-        if (!result) {
-            return failure();
-        }
-
-        const finalValue = transforms.reduce(
-            (acc, fn) => fn(acc),
-            result[0] as unknown,
-        );
-
-        return success(finalValue, result[1]);
-    });
+    return define(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+            if (isFailure(result)) {
+                return result;
+            }
+
+            const finalValue = transforms.reduce(
+                (acc, fn) => fn(acc),
+                result[0] as unknown,
+            );
+
+            return step(finalValue, result[1]);
+        },
+        'map',
+        { kind: 'map', children: [parser] },
+    );
 }
 
+export function chain<A, B>(
+    parser: ParserFunction<A>,
+    next: (value: A) => ParserFunction<B>,
+): Parser<B>;
+export function chain<A, B, C>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+): Parser<C>;
+export function chain<A, B, C, D>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+    next3: (value: C) => ParserFunction<D>,
+): Parser<D>;
+export function chain<A, B, C, D, E>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+    next3: (value: C) => ParserFunction<D>,
+    next4: (value: D) => ParserFunction<E>,
+): Parser<E>;
+export function chain<A, B, C, D, E, F>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+    next3: (value: C) => ParserFunction<D>,
+    next4: (value: D) => ParserFunction<E>,
+    next5: (value: E) => ParserFunction<F>,
+): Parser<F>;
+export function chain<A, B, C, D, E, F, G>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+    next3: (value: C) => ParserFunction<D>,
+    next4: (value: D) => ParserFunction<E>,
+    next5: (value: E) => ParserFunction<F>,
+    next6: (value: F) => ParserFunction<G>,
+): Parser<G>;
+export function chain<A, B, C, D, E, F, G, H>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+    next3: (value: C) => ParserFunction<D>,
+    next4: (value: D) => ParserFunction<E>,
+    next5: (value: E) => ParserFunction<F>,
+    next6: (value: F) => ParserFunction<G>,
+    next7: (value: G) => ParserFunction<H>,
+): Parser<H>;
+export function chain<A, B, C, D, E, F, G, H, I>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+    next3: (value: C) => ParserFunction<D>,
+    next4: (value: D) => ParserFunction<E>,
+    next5: (value: E) => ParserFunction<F>,
+    next6: (value: F) => ParserFunction<G>,
+    next7: (value: G) => ParserFunction<H>,
+    next8: (value: H) => ParserFunction<I>,
+): Parser<I>;
+export function chain<A, B, C, D, E, F, G, H, I, J>(
+    parser: ParserFunction<A>,
+    next1: (value: A) => ParserFunction<B>,
+    next2: (value: B) => ParserFunction<C>,
+    next3: (value: C) => ParserFunction<D>,
+    next4: (value: D) => ParserFunction<E>,
+    next5: (value: E) => ParserFunction<F>,
+    next6: (value: F) => ParserFunction<G>,
+    next7: (value: G) => ParserFunction<H>,
+    next8: (value: H) => ParserFunction<I>,
+    next9: (value: I) => ParserFunction<J>,
+): Parser<J>;
 /**
- * zero or more occurrences
+ * runs the parser returned for each value in turn, so what follows can
+ * depend on what was parsed
  */
-export const many = <T>(parser: Parser<T>) => {
-    return create<T[]>((input): Success<T[]> => {
-        const results: T[] = [];
-        let remaining = input;
+export function chain<A>(
+    parser: ParserFunction<A>,
+    ...nexts: Array<(value: unknown) => ParserFunction<unknown>>
+) {
+    return define(
+        (cursor) => {
+            let result: Reply<unknown> = invoke(parser, cursor);
+
+            for (const next of nexts) {
+                if (isFailure(result)) {
+                    return result;
+                }
 
-        while (true) {
-            const result = parser(remaining);
-            if (!result) {
-                break;
+                result = invoke(next(result[0]), result[1]);
             }
 
-            // Prevent infinite loop: ensure progress is made
-            if (result[1] === remaining) {
-                break;
+            return result;
+        },
+        'chain',
+        { kind: 'chain', children: [parser] },
+    );
+}
+
+export const flatMap = chain;
+
+/**
+ * runs the parsers yielded by the generator in order, yield* on a parser
+ * returns its value and the generator's return value becomes the result
+ */
+export const gen = <T>(
+    body: () => Generator<ParserFunction<unknown>, T, unknown>,
+) => {
+    return define<T>(
+        (cursor) => {
+            const steps = body();
+            let current = cursor;
+            let next = steps.next();
+
+            while (!next.done) {
+                const result = invoke(next.value, current);
+                if (isFailure(result)) {
+                    steps.return(undefined as T);
+
+                    return result;
+                }
+
+                current = result[1];
+                next = steps.next(result[0]);
             }
 
-            results.push(result[0]);
-            remaining = result[1];
-        }
+            return step(next.value, current);
+        },
+        'gen',
+        { kind: 'gen', children: [] },
+    );
+};
 
-        return success(results, remaining);
-    });
+/**
+ * fails at the start of the value when the predicate rejects it
+ */
+export const filter = <T>(
+    parser: ParserFunction<T>,
+    predicate: (value: T) => boolean,
+    expected?: string,
+) => {
+    return define<T>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+            if (isFailure(result) || predicate(result[0])) {
+                return result;
+            }
+
+            return expected === undefined
+                ? failure(cursor.offset)
+                : failure(cursor.offset, expected);
+        },
+        'filter',
+        { kind: 'filter', children: [parser] },
+    );
 };
 
 /**
- * one or more occurrences with failure on zero
+ * filter with a type guard, narrowing the value
  */
-export const many1 = <T>(parser: Parser<T>) => {
-    return create<T[]>((input) => {
-        const result = parser(input);
-        if (!result) {
-            return failure();
-        }
-
-        const restResults = many(parser)(result[1]);
-
-        return restResults
-            ? success([result[0], ...restResults[0]], restResults[1])
-            : failure();
+export const refine = <T, U extends T>(
+    parser: ParserFunction<T>,
+    guard: (value: T) => value is U,
+    expected?: string,
+) => {
+    return create<U>(filter(parser, guard, expected) as Parser<U>, 'refine', {
+        kind: 'refine',
+        children: [parser],
     });
 };
 
-export const manyAtMost = <T>(parser: Parser<T>, n: number) => {
-    return create<T[]>((input) => {
-        const results: T[] = [];
-        let remaining = input;
+/**
+ * zero or more occurrences
+ */
+export const many = <T>(parser: ParserFunction<T>) => {
+    return define<T[]>(
+        (cursor) => {
+            const results: T[] = [];
+            let current = cursor;
+
+            while (true) {
+                const result = invoke(parser, current);
+                if (isFailure(result)) {
+                    if (result.fatal) {
+                        return result;
+                    }
+
+                    break;
+                }
+
+                // Prevent infinite loop: ensure progress is made
+                if (same(result[1], current)) {
+                    break;
+                }
+
+                results.push(result[0]);
+                current = result[1];
+            }
+
+            return step(results, current);
+        },
+        'many',
+        { kind: 'many', children: [parser] },
+    );
+};
 
-        for (let i = 0; i < n; i++) {
-            const result = parser(remaining);
-            if (!result) {
-                break;
+/**
+ * one or more occurrences with failure on zero
+ */
+export const many1 = <T>(parser: ParserFunction<T>) => {
+    return define<T[]>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+            if (isFailure(result)) {
+                return result;
             }
 
-            results.push(result[0]);
-            remaining = result[1];
-        }
+            const rest = invoke(many(parser), result[1]);
+            if (isFailure(rest)) {
+                return rest;
+            }
 
-        return success(results, remaining);
-    });
+            return step([result[0], ...rest[0]], rest[1]);
+        },
+        'many1',
+        { kind: 'many1', children: [parser] },
+    );
 };
 
-export const manyAtLeast = <T>(parser: Parser<T>, n: number) => {
-    return create<T[]>((input) => {
-        const required = exactly(parser, n)(input);
-        if (!required) {
-            return failure();
-        }
+export const manyAtMost = <T>(parser: ParserFunction<T>, n: number) => {
+    return define<T[]>(
+        (cursor) => {
+            const results: T[] = [];
+            let current = cursor;
 
-        const additional = many(parser)(required[1]);
-        if (!additional) {
-            return failure();
-        }
+            for (let i = 0; i < n; i++) {
+                const result = invoke(parser, current);
+                if (isFailure(result)) {
+                    if (result.fatal) {
+                        return result;
+                    }
 
-        return success([...required[0], ...additional[0]], additional[1]);
-    });
+                    break;
+                }
+
+                results.push(result[0]);
+                current = result[1];
+            }
+
+            return step(results, current);
+        },
+        'manyAtMost',
+        { kind: 'manyAtMost', children: [parser], max: n },
+    );
 };
 
-export const manyBetween = <T>(parser: Parser<T>, min: number, max: number) =>
-    create<T[]>((input) => {
-        const required = exactly(parser, min)(input);
-        if (!required) {
-            return failure();
-        }
+export const manyAtLeast = <T>(parser: ParserFunction<T>, n: number) => {
+    return define<T[]>(
+        (cursor) => {
+            const required = invoke(exactly(parser, n), cursor);
+            if (isFailure(required)) {
+                return required;
+            }
 
-        const additional = manyAtMost(parser, max - min)(required[1]);
-        if (!additional) {
-            return failure();
-        }
+            const additional = invoke(many(parser), required[1]);
+            if (isFailure(additional)) {
+                return additional;
+            }
 
-        return success([...required[0], ...additional[0]], additional[1]);
-    });
+            return step([...required[0], ...additional[0]], additional[1]);
+        },
+        'manyAtLeast',
+        { kind: 'manyAtLeast', children: [parser], min: n },
+    );
+};
 
-export const exactly = <T>(parser: Parser<T>, n: number) => {
-    return create<T[]>((input) => {
-        const results: T[] = [];
-        let remaining = input;
+export const manyBetween = <T>(
+    parser: ParserFunction<T>,
+    min: number,
+    max: number,
+) =>
+    define<T[]>(
+        (cursor) => {
+            const required = invoke(exactly(parser, min), cursor);
+            if (isFailure(required)) {
+                return required;
+            }
 
-        for (let i = 0; i < n; i++) {
-            const result = parser(remaining);
-            if (!result) {
-                return failure();
+            const additional = invoke(
+                manyAtMost(parser, max - min),
+                required[1],
+            );
+            if (isFailure(additional)) {
+                return additional;
             }
 
-            results.push(result[0]);
-            remaining = result[1];
-        }
+            return step([...required[0], ...additional[0]], additional[1]);
+        },
+        'manyBetween',
+        { kind: 'manyBetween', children: [parser], min, max },
+    );
 
-        return success(results, remaining);
-    });
+export const exactly = <T>(parser: ParserFunction<T>, n: number) => {
+    return define<T[]>(
+        (cursor) => {
+            const results: T[] = [];
+            let current = cursor;
+
+            for (let i = 0; i < n; i++) {
+                const result = invoke(parser, current);
+                if (isFailure(result)) {
+                    return result;
+                }
+
+                results.push(result[0]);
+                current = result[1];
+            }
+
+            return step(results, current);
+        },
+        'exactly',
+        { kind: 'exactly', children: [parser], min: n, max: n },
+    );
 };
 
-export const optional = <T>(parser: Parser<T>) => {
-    return create<T | null>((input) => {
-        const result = parser(input);
+const separated = <T, S>(
+    parser: ParserFunction<T>,
+    separator: ParserFunction<S>,
+    {
+        trailing = 'forbidden',
+        min = 0,
+        max = Infinity,
+        keep = false,
+    }: SepByOptions,
+    name: string,
+) => {
+    return define<(T | S)[]>(
+        (cursor) => {
+            const results: (T | S)[] = [];
+            let count = 0;
+            let current = cursor;
+            let pending: Step<S> | null = null;
+            let missing: Failure | null = null;
+
+            while (count < max) {
+                const item = invoke(parser, pending ? pending[1] : current);
+                if (isFailure(item)) {
+                    if (item.fatal || count < min) {
+                        return item;
+                    }
+
+                    break;
+                }
+
+                // Prevent infinite loop: ensure progress is made
+                if (count > 0 && same(item[1], current)) {
+                    break;
+                }
+
+                if (pending && keep) {
+                    results.push(pending[0]);
+                }
+
+                results.push(item[0]);
+                count++;
+                current = item[1];
+                pending = null;
+
+                const next = invoke(separator, current);
+                if (isFailure(next)) {
+                    if (next.fatal || count < min) {
+                        return next;
+                    }
+
+                    missing = next;
+                    break;
+                }
+
+                pending = next;
+            }
+
+            if (pending && trailing !== 'forbidden') {
+                if (keep) {
+                    results.push(pending[0]);
+                }
 
-        return result ? success(result[0], result[1]) : success(null, input);
-    });
+                current = pending[1];
+            } else if (!pending && trailing === 'required' && count > 0) {
+                return missing ?? failure(current.offset);
+            }
+
+            return step(results, current);
+        },
+        name,
+        { kind: name, children: [parser, separator], min, max, trailing },
+    );
 };
 
-export const optionalSkip = <T>(parser: Parser<T>) => {
-    return create<void>((input) => {
-        const result = parser(input);
+/**
+ * items separated by separator, see SepByOptions for trailing separators,
+ * counts and keeping separators in the result
+ */
+export const sepBy = <T, S, O extends SepByOptions = SepByOptions>(
+    parser: ParserFunction<T>,
+    separator: ParserFunction<S>,
+    options?: O,
+) => {
+    return separated(parser, separator, options ?? {}, 'sepBy') as Parser<
+        Separated<T, S, O>
+    >;
+};
 
-        return result
-            ? success(undefined, result[1])
-            : success(undefined, input);
-    });
+/**
+ * sepBy with at least one item
+ */
+export const sepBy1 = <T, S, O extends SepByOptions = SepByOptions>(
+    parser: ParserFunction<T>,
+    separator: ParserFunction<S>,
+    options?: O,
+) => {
+    const min = Math.max(1, options?.min ?? 0);
+
+    return separated(
+        parser,
+        separator,
+        { ...options, min },
+        'sepBy1',
+    ) as Parser<Separated<T, S, O>>;
+};
+
+/**
+ * sepBy that allows a trailing separator by default
+ */
+export const sepEndBy = <T, S, O extends SepByOptions = SepByOptions>(
+    parser: ParserFunction<T>,
+    separator: ParserFunction<S>,
+    options?: O,
+) => {
+    return separated(
+        parser,
+        separator,
+        { trailing: 'allowed', ...options },
+        'sepEndBy',
+    ) as Parser<Separated<T, S, O>>;
 };
 
-export const optionalWith = <T>(parser: Parser<T>, defaultValue: T) => {
-    return create<T>((input) => {
-        const result = parser(input);
+export const optional = <T>(parser: ParserFunction<T>) => {
+    return define<T | null>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
 
-        return result
-            ? success(result[0], result[1])
-            : success(defaultValue, input);
-    });
+            if (isFailure(result)) {
+                return result.fatal ? result : step(null, cursor);
+            }
+
+            return step(result[0], result[1]);
+        },
+        'optional',
+        { kind: 'optional', children: [parser] },
+    );
 };
 
-export const left = <A, B>(parserA: Parser<A>, parserB: Parser<B>) => {
-    return create<A>(map(sequence(parserA, parserB), ([a]) => a));
+export const optionalSkip = <T>(parser: ParserFunction<T>) => {
+    return define<void>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+
+            if (isFailure(result)) {
+                return result.fatal ? result : step(undefined, cursor);
+            }
+
+            return step(undefined, result[1]);
+        },
+        'optionalSkip',
+        { kind: 'optionalSkip', children: [parser] },
+    );
 };
 
-export const right = <A, B>(parserA: Parser<A>, parserB: Parser<B>) => {
-    return create<B>(map(sequence(parserA, parserB), ([, b]) => b));
+export const optionalWith = <T>(parser: ParserFunction<T>, defaultValue: T) => {
+    return define<T>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+
+            if (isFailure(result)) {
+                return result.fatal ? result : step(defaultValue, cursor);
+            }
+
+            return step(result[0], result[1]);
+        },
+        'optionalWith',
+        { kind: 'optionalWith', children: [parser] },
+    );
+};
+
+export const left = <A, B>(
+    parserA: ParserFunction<A>,
+    parserB: ParserFunction<B>,
+) => {
+    return create<A>(
+        map(sequence(parserA, parserB), ([a]) => a),
+        'left',
+        { kind: 'left', children: [parserA, parserB] },
+    );
+};
+
+export const right = <A, B>(
+    parserA: ParserFunction<A>,
+    parserB: ParserFunction<B>,
+) => {
+    return create<B>(
+        map(sequence(parserA, parserB), ([, b]) => b),
+        'right',
+        { kind: 'right', children: [parserA, parserB] },
+    );
 };
 
 export const middle = <A, B, C>(
-    parserA: Parser<A>,
-    parserB: Parser<B>,
-    parserC: Parser<C>,
+    parserA: ParserFunction<A>,
+    parserB: ParserFunction<B>,
+    parserC: ParserFunction<C>,
 ) => {
-    return create<B>(map(sequence(parserA, parserB, parserC), ([, b]) => b));
+    return create<B>(
+        map(sequence(parserA, parserB, parserC), ([, b]) => b),
+        'middle',
+        { kind: 'middle', children: [parserA, parserB, parserC] },
+    );
 };
 
 type First<T extends readonly unknown[]> = T extends readonly [
@@ -302,9 +801,13 @@ type First<T extends readonly unknown[]> = T extends readonly [
     : never;
 
 export const first = <T extends readonly unknown[]>(
-    parser: Parser<T>,
+    parser: ParserFunction<T>,
 ): Parser<First<T>> => {
-    return create<First<T>>(map(parser, (arr) => arr[0] as First<T>));
+    return create<First<T>>(
+        map(parser, (arr) => arr[0] as First<T>),
+        'first',
+        { kind: 'first', children: [parser] },
+    );
 };
 
 type Last<T extends readonly unknown[]> = T extends readonly [
@@ -315,10 +818,12 @@ type Last<T extends readonly unknown[]> = T extends readonly [
     : never;
 
 export const last = <T extends readonly [unknown, ...unknown[]]>(
-    parser: Parser<T>,
+    parser: ParserFunction<T>,
 ) => {
     return create<Last<T>>(
         map(parser, (arr) => arr[arr.length - 1] as Last<T>),
+        'last',
+        { kind: 'last', children: [parser] },
     );
 };
 
@@ -335,42 +840,66 @@ type Nth<T extends readonly unknown[], N extends number> = number extends N
       : never;
 
 export const nth = <T extends readonly unknown[], N extends number>(
-    parser: Parser<T>,
+    parser: ParserFunction<T>,
     index: N,
 ): Parser<Nth<T, N>> => {
-    return create<Nth<T, N>>(map(parser, (arr) => arr[index] as Nth<T, N>));
+    return create<Nth<T, N>>(
+        map(parser, (arr) => arr[index] as Nth<T, N>),
+        'nth',
+        { kind: 'nth', children: [parser] },
+    );
 };
 
-export const until = <T, U>(parser: Parser<T>, terminator: Parser<U>) => {
-    return create<T[]>((input) => {
-        const results: T[] = [];
-        let remaining = input;
-
-        while (true) {
-            const termResult = terminator(remaining);
-            if (termResult) {
-                break;
-            }
-
-            const parseResult = parser(remaining);
-            if (!parseResult) {
-                return failure();
+export const until = <T, U>(
+    parser: ParserFunction<T>,
+    terminator: ParserFunction<U>,
+) => {
+    return define<T[]>(
+        (cursor) => {
+            const results: T[] = [];
+            let current = cursor;
+
+            while (true) {
+                const termResult = invoke(terminator, current);
+                if (!isFailure(termResult)) {
+                    break;
+                }
+
+                if (termResult.fatal) {
+                    return termResult;
+                }
+
+                const parseResult = invoke(parser, current);
+                if (isFailure(parseResult)) {
+                    return parseResult.fatal
+                        ? parseResult
+                        : merge(termResult, parseResult);
+                }
+
+                results.push(parseResult[0]);
+                current = parseResult[1];
             }
 
-            results.push(parseResult[0]);
-            remaining = parseResult[1];
-        }
-
-        return success(results, remaining);
-    });
+            return step(results, current);
+        },
+        'until',
+        { kind: 'until', children: [parser, terminator] },
+    );
 };
 
-export const lexeme = <T>(parser: Parser<T>) => {
-    return create<T>(map(sequence(parser, regex(/^\s*/)), ([value]) => value));
+export const lexeme = <T>(parser: ParserFunction<T>) => {
+    return create<T>(
+        map(sequence(parser, regex(/^\s*/)), ([value]) => value),
+        'lexeme',
+        { kind: 'lexeme', children: [parser] },
+    );
 };
 
 export const token = <T extends string>(str: T): Parser<T> => {
-    return create<T>(lexeme(literal(str)));
+    return create<T>(lexeme(literal(str)), `token(${JSON.stringify(str)})`, {
+        kind: 'token',
+        text: str,
+    });
 };
 
 /**
@@ -379,15 +908,24 @@ export const token = <T extends string>(str: T): Parser<T> => {
  * on zero matches, returns the initial value
  */
 export const fold = <T, U>(
-    parser: Parser<T>,
+    parser: ParserFunction<T>,
     initial: U,
     folder: (acc: U, item: T) => U,
 ): Parser<U> => {
-    return create<U>((input) => {
-        const [items, rest] = many(parser)(input) as Success<T[]>;
+    return define<U>(
+        (cursor) => {
+            const result = invoke(many(parser), cursor);
+            if (isFailure(result)) {
+                return result;
+            }
 
-        return success(items.reduce(folder, initial), rest);
-    });
+            const [items, rest] = result;
+
+            return step(items.reduce(folder, initial), rest);
+        },
+        'fold',
+        { kind: 'fold', children: [parser] },
+    );
 };
 
 /**
@@ -396,25 +934,34 @@ export const fold = <T, U>(
  * on success, folds all items (plus the initial) with the folder
  */
 export const fold1 = <T, U>(
-    parser: Parser<T>,
+    parser: ParserFunction<T>,
     initial: U,
     folder: (acc: U, item: T) => U,
 ): Parser<U> => {
-    return create<U>((input) => {
-        const first = parser(input);
-        if (!first) {
-            return failure();
-        }
+    return define<U>(
+        (cursor) => {
+            const first = invoke(parser, cursor);
+            if (isFailure(first)) {
+                return first;
+            }
 
-        const [firstValue, rest] = first;
+            const [firstValue, rest] = first;
 
-        let acc = folder(initial, firstValue);
+            let acc = folder(initial, firstValue);
 
-        const [items, finalRest] = many(parser)(rest) as Success<T[]>;
-        acc = items.reduce(folder, acc);
+            const result = invoke(many(parser), rest);
+            if (isFailure(result)) {
+                return result;
+            }
 
-        return success(acc, finalRest);
-    });
+            const [items, finalRest] = result;
+            acc = items.reduce(folder, acc);
+
+            return step(acc, finalRest);
+        },
+        'fold1',
+        { kind: 'fold1', children: [parser] },
+    );
 };
 
 /**
@@ -423,15 +970,24 @@ export const fold1 = <T, U>(
  * on zero matches, returns the initial value
  */
 export const foldRight = <T, U>(
-    parser: Parser<T>,
+    parser: ParserFunction<T>,
     initial: U,
     folder: (acc: U, item: T) => U,
 ): Parser<U> => {
-    return create<U>((input) => {
-        const [items, rest] = many(parser)(input) as Success<T[]>;
+    return define<U>(
+        (cursor) => {
+            const result = invoke(many(parser), cursor);
+            if (isFailure(result)) {
+                return result;
+            }
 
-        return success(items.reduceRight(folder, initial), rest);
-    });
+            const [items, rest] = result;
+
+            return step(items.reduceRight(folder, initial), rest);
+        },
+        'foldRight',
+        { kind: 'foldRight', children: [parser] },
+    );
 };
 
 /**
@@ -440,30 +996,310 @@ export const foldRight = <T, U>(
  * on success, folds all items (plus the initial) with the folder
  */
 export const foldRight1 = <T, U>(
-    parser: Parser<T>,
+    parser: ParserFunction<T>,
     initial: U,
     folder: (acc: U, item: T) => U,
 ): Parser<U> => {
-    return create<U>((input) => {
-        const first = parser(input);
-        if (!first) {
-            return failure();
-        }
+    return define<U>(
+        (cursor) => {
+            const first = invoke(parser, cursor);
+            if (isFailure(first)) {
+                return first;
+            }
 
-        const [firstValue, rest] = first;
-        const [items, finalRest] = many(parser)(rest) as Success<T[]>;
+            const [firstValue, rest] = first;
+            const result = invoke(many(parser), rest);
+            if (isFailure(result)) {
+                return result;
+            }
 
-        const all = [firstValue, ...items];
-        const folded = all.reduceRight(folder, initial);
+            const [items, finalRest] = result;
 
-        return success(folded, finalRest);
-    });
+            const all = [firstValue, ...items];
+            const folded = all.reduceRight(folder, initial);
+
+            return step(folded, finalRest);
+        },
+        'foldRight1',
+        { kind: 'foldRight1', children: [parser] },
+    );
 };
 
-export const peek = <T>(parser: Parser<T>) => {
-    return create<T>((input) => {
-        const result = parser(input);
+export const peek = <T>(parser: ParserFunction<T>) => {
+    return define<T>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
 
-        return result ? success(result[0], input) : failure();
+            return isFailure(result) ? result : step(result[0], cursor);
+        },
+        'peek',
+        { kind: 'peek', children: [parser] },
+    );
+};
+
+/**
+ * succeeds without consuming input where the parser fails
+ */
+export const not = <T>(parser: ParserFunction<T>) => {
+    return define<null>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+
+            return isFailure(result)
+                ? step(null, cursor)
+                : failure(cursor.offset);
+        },
+        'not',
+        { kind: 'not', children: [parser] },
+    );
+};
+
+/**
+ * the parser, unless the lookahead matches right after it
+ */
+export const notFollowedBy = <T, U>(
+    parser: ParserFunction<T>,
+    lookahead: ParserFunction<U>,
+) => {
+    return create<T>(left(parser, not(lookahead)), 'notFollowedBy', {
+        kind: 'notFollowedBy',
+        children: [parser, lookahead],
     });
 };
+
+/**
+ * wraps the parsed value with the source range it was parsed from
+ */
+export const located = <T>(parser: ParserFunction<T>) => {
+    return define<Located<T>>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+            if (isFailure(result)) {
+                return result;
+            }
+
+            const [value, rest] = result;
+
+            return step(
+                {
+                    value,
+                    start: locate(cursor.source, cursor.offset, cursor.context),
+                    end: locate(rest.source, rest.offset, rest.context),
+                },
+                rest,
+            );
+        },
+        'located',
+        { kind: 'located', children: [parser] },
+    );
+};
+
+/**
+ * records a failure of the parser as a diagnostic and skips past the next
+ * match of sync, so lists built with many or until can keep going
+ * the skipped input becomes an error node built by toNode
+ */
+export const recover = <T, E = Recovered>(
+    parser: ParserFunction<T>,
+    sync: ParserFunction<unknown>,
+    toNode: (error: ParseError, skipped: string) => E = (error, skipped) =>
+        ({ error, skipped }) as E,
+) => {
+    return define<T | E>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+            if (!isFailure(result)) {
+                return result;
+            }
+
+            const error = report(
+                result,
+                cursor.source,
+                undefined,
+                cursor.context,
+            );
+            let current = cursor;
+
+            while (current.offset < current.source.length) {
+                const synced = invoke(sync, current);
+                if (!isFailure(synced)) {
+                    current = synced[1];
+                    break;
+                }
+
+                current = advance(current, 1);
+            }
+
+            if (current.offset === current.source.length) {
+                reach(current, current.offset + 1);
+            }
+
+            const skipped = cursor.source.slice(cursor.offset, current.offset);
+
+            return step(toNode(error, skipped), {
+                ...current,
+                diagnostics: { error, previous: cursor.diagnostics },
+            });
+        },
+        'recover',
+        { kind: 'recover', children: [parser, sync] },
+    );
+};
+
+const tableOf = <V>(tables: Map<object, Map<number, V>>, owner: object) => {
+    let table = tables.get(owner);
+    if (!table) {
+        table = new Map();
+        tables.set(owner, table);
+    }
+
+    return table;
+};
+
+const relabel = <T>(result: Reply<T>, offset: number, name?: string) =>
+    name !== undefined &&
+    isFailure(result) &&
+    (result.offset ?? offset) <= offset
+        ? { ...result, offset, expected: [name] }
+        : result;
+
+/**
+ * names the parser in traces and error reports
+ * failures without consumed input expect the name instead of the inner items
+ */
+export const label = <T>(parser: ParserFunction<T>, name: string) => {
+    return define<T>(
+        (cursor) => relabel(invoke(parser, cursor), cursor.offset, name),
+        name,
+        { kind: 'label', name, children: [parser] },
+    );
+};
+
+/**
+ * a named rule, as used by grammar
+ * re-entering the rule at the same position returns the seed parsed so far,
+ * which is then grown until it stops consuming more input (Warth et al.)
+ * results depending on a seed that is still growing are never cached
+ */
+export const rule = <T>(
+    parser: ParserFunction<T>,
+    name?: string,
+    memoize = false,
+) => {
+    const self: Parser<T> = define<T>(
+        (cursor) => {
+            const { context, offset } = cursor;
+            if (!context || context.source !== cursor.source) {
+                return relabel(invoke(parser, cursor), offset, name);
+            }
+
+            const table = memoize ? tableOf(context.memo, self) : null;
+            const cached = table?.get(offset) as Reply<T> | undefined;
+            if (table) {
+                const stats = (context.stats[name ?? 'anonymous'] ??= {
+                    hits: 0,
+                    misses: 0,
+                });
+                if (cached) {
+                    stats.hits++;
+
+                    return rebase(cached, cursor);
+                }
+
+                stats.misses++;
+            }
+
+            const active = tableOf(context.active, self);
+            const running = active.get(offset);
+            if (running) {
+                running.recursive = true;
+                for (
+                    let i = context.rules.length - 1;
+                    context.rules[i] !== running;
+                    i--
+                ) {
+                    context.rules[i].involved.add(running);
+                }
+
+                return running.seed as Reply<T>;
+            }
+
+            const frame: RuleFrame = {
+                seed: failure(offset),
+                recursive: false,
+                involved: new Set(),
+            };
+            active.set(offset, frame);
+            context.rules.push(frame);
+
+            let result = relabel(invoke(parser, cursor), offset, name);
+            if (frame.recursive) {
+                let next = result;
+                while (!isFailure(next) && grows(next, frame.seed)) {
+                    frame.seed = next;
+                    next = invoke(parser, cursor);
+                }
+
+                if (isFailure(next) && next.fatal) {
+                    result = next;
+                } else if (!isFailure(frame.seed)) {
+                    result = frame.seed as Reply<T>;
+                }
+            }
+
+            context.rules.pop();
+            active.delete(offset);
+            if (
+                table &&
+                frame.involved.size === 0 &&
+                !diagnosed(result, cursor)
+            ) {
+                table.set(offset, result);
+            }
+
+            return result;
+        },
+        name,
+        { kind: 'rule', name, children: [parser] },
+    );
+
+    return self;
+};
+
+const grows = (next: Step<unknown>, seed: Reply<unknown>) =>
+    isFailure(seed) || next[1].offset > seed[1].offset;
+
+/**
+ * cached steps carry the diagnostics of the path that produced them
+ */
+const rebase = <T>(reply: Reply<T>, cursor: Cursor): Reply<T> =>
+    isFailure(reply) || reply[1].diagnostics === cursor.diagnostics
+        ? reply
+        : step(reply[0], { ...reply[1], diagnostics: cursor.diagnostics });
+
+const diagnosed = <T>(reply: Reply<T>, cursor: Cursor) =>
+    !isFailure(reply) && reply[1].diagnostics !== cursor.diagnostics;
+
+/**
+ * caches the result per input position for the duration of one parse
+ * hits and misses are counted under the given name, or 'anonymous'
+ */
+export const memo = <T>(parser: ParserFunction<T>, name?: string) => {
+    return rule(parser, name, true);
+};
+
+/**
+ * marks failures of the parser as fatal
+ * choice, many, optional and until propagate fatal failures instead of backtracking
+ */
+export const commit = <T>(parser: ParserFunction<T>) => {
+    return define<T>(
+        (cursor) => {
+            const result = invoke(parser, cursor);
+
+            return isFailure(result) ? { ...result, fatal: true } : result;
+        },
+        'commit',
+        { kind: 'commit', children: [parser] },
+    );
+};
@@ -1,7 +1,22 @@
 import { assertType, describe, expect, it } from 'vitest';
 import { grammar, run } from './core';
-import { literal } from './terminals';
-import { sequence } from './combinators';
+import { char, literal, regex } from './terminals';
+import {
+    choice,
+    define,
+    gen,
+    invoke,
+    lexeme,
+    many,
+    map,
+    middle,
+    optional,
+    recover,
+    right,
+    sequence,
+    token,
+} from './combinators';
+import { MemoStats, ParseError, Parser, RunResult } from './types';
 
 describe('grammar', () => {
     it('should create recursive parsers', () => {
@@ -23,6 +38,26 @@ describe('grammar', () => {
         assertType<['foo', 'bar'] | null>(parsed);
     });
 
+    it('should build rules with gen', () => {
+        type Grammar = {
+            list: number[];
+            item: number;
+        };
+
+        const { list } = grammar<Grammar>({
+            item: () => map(regex(/\d+/), Number),
+            list: ({ item, list }) =>
+                gen(function* () {
+                    const head = yield* item;
+                    const tail = yield* optional(right(char(','), list));
+
+                    return [head, ...(tail ?? [])];
+                }),
+        });
+
+        expect(run(list, '1,2,3')).toEqual([1, 2, 3]);
+    });
+
     it('should handle circular references', () => {
         type Grammar = {
             a: 'a';
@@ -37,4 +72,392 @@ describe('grammar', () => {
         expect(a('abc')).toEqual(['a', 'bc']);
         expect(b('bcd')).toEqual(['b', 'cd']);
     });
+
+    it('should build each rule once', () => {
+        let built = 0;
+        const { list } = grammar({
+            list: () => {
+                built++;
+
+                return many(char('x'));
+            },
+        });
+
+        expect(run(list, 'xx')).toEqual(['x', 'x']);
+        expect(run(list, 'x')).toEqual(['x']);
+        expect(built).toBe(1);
+    });
+
+    describe('memoize', () => {
+        type Grammar = {
+            expression: unknown;
+            term: unknown;
+        };
+
+        const definitions = (calls: { term: number }) => ({
+            expression: ({
+                expression,
+                term,
+            }: { [K in keyof Grammar]: Parser<Grammar[K]> }) =>
+                choice<unknown>(
+                    sequence(term, char('+'), expression),
+                    sequence(term, char('-'), expression),
+                    term,
+                ),
+            term: ({
+                expression,
+            }: { [K in keyof Grammar]: Parser<Grammar[K]> }) => {
+                const term = choice<unknown>(
+                    sequence(char('('), expression, char(')')),
+                    regex(/\d/),
+                );
+
+                return define((cursor) => {
+                    calls.term++;
+
+                    return invoke(term, cursor);
+                });
+            },
+        });
+
+        it('should parse the same with and without memoization', () => {
+            const plain = grammar<Grammar>(definitions({ term: 0 }));
+            const memoized = grammar<Grammar>(definitions({ term: 0 }), {
+                memoize: true,
+            });
+
+            expect(run(memoized.expression, '1-(2+3)')).toEqual(
+                run(plain.expression, '1-(2+3)'),
+            );
+        });
+
+        it('should parse each rule only once per position', () => {
+            const plainCalls = { term: 0 };
+            const memoizedCalls = { term: 0 };
+            const plain = grammar<Grammar>(definitions(plainCalls));
+            const memoized = grammar<Grammar>(definitions(memoizedCalls), {
+                memoize: true,
+            });
+
+            const input = '((((1))))';
+            run(plain.expression, input);
+            run(memoized.expression, input);
+
+            expect(memoizedCalls.term).toBeLessThan(plainCalls.term);
+            expect(memoizedCalls.term).toBe(5);
+        });
+
+        it('should report hits and misses per rule', () => {
+            const { expression } = grammar<Grammar>(definitions({ term: 0 }), {
+                memoize: true,
+            });
+
+            let stats: MemoStats = {};
+            run(expression, '1', { onMemoStats: (s) => (stats = s) });
+
+            expect(stats).toEqual({
+                expression: { hits: 0, misses: 1 },
+                term: { hits: 2, misses: 1 },
+            });
+        });
+
+        it('should discard the cache after each run', () => {
+            const calls = { term: 0 };
+            const { expression } = grammar<Grammar>(definitions(calls), {
+                memoize: true,
+            });
+
+            run(expression, '1');
+            const first = calls.term;
+            run(expression, '1');
+
+            expect(calls.term).toBe(first * 2);
+        });
+    });
+
+    it('should name failures after the rule', () => {
+        type Grammar = {
+            assignment: unknown;
+            identifier: string;
+        };
+
+        const { assignment } = grammar<Grammar>({
+            assignment: ({ identifier }) =>
+                sequence(identifier, token('='), identifier),
+            identifier: () => lexeme(regex(/[a-z]+/)),
+        });
+
+        const errors: ParseError[] = [];
+        run(assignment, 'a = 1', { onError: (error) => errors.push(error) });
+
+        expect(errors[0].message).toBe(
+            'Unexpected "1" at line 1, column 5, expected identifier',
+        );
+    });
+
+    describe('left recursion', () => {
+        type Arithmetic = {
+            expression: number;
+            term: number;
+            factor: number;
+        };
+
+        const arithmetic = (memoize: boolean) =>
+            grammar<Arithmetic>(
+                {
+                    expression: ({ expression, term }) =>
+                        choice(
+                            map(
+                                sequence(expression, token('-'), term),
+                                ([a, , b]) => a - b,
+                            ),
+                            map(
+                                sequence(expression, token('+'), term),
+                                ([a, , b]) => a + b,
+                            ),
+                            term,
+                        ),
+                    term: ({ term, factor }) =>
+                        choice(
+                            map(
+                                sequence(term, token('/'), factor),
+                                ([a, , b]) => a / b,
+                            ),
+                            factor,
+                        ),
+                    factor: ({ expression }) =>
+                        choice(
+                            middle(token('('), expression, token(')')),
+                            map(lexeme(regex(/\d+/)), Number),
+                        ),
+                },
+                { memoize },
+            );
+
+        it.each([false, true])(
+            'should parse direct left recursion (memoize: %s)',
+            (memoize) => {
+                const { expression } = arithmetic(memoize);
+
+                expect(run(expression, '10 - 3 - 2')).toBe(5);
+                expect(run(expression, '8 / 2 / 2 + 1')).toBe(3);
+                expect(run(expression, '10 - (3 - 2)')).toBe(9);
+                expect(run(expression, '7')).toBe(7);
+            },
+        );
+
+        it.each([false, true])(
+            'should parse indirect left recursion (memoize: %s)',
+            (memoize) => {
+                type Path = {
+                    path: string;
+                    segment: string;
+                };
+
+                const { path } = grammar<Path>(
+                    {
+                        path: ({ segment }) =>
+                            choice(
+                                map(
+                                    sequence(segment, char('.'), regex(/\w+/)),
+                                    ([a, , b]) => `(${a}.${b})`,
+                                ),
+                                regex(/\w+/),
+                            ),
+                        segment: ({ path }) => path,
+                    },
+                    { memoize },
+                );
+
+                expect(run(path, 'a.b.c')).toBe('((a.b).c)');
+                expect(run(path, 'a')).toBe('a');
+            },
+        );
+
+        it('should fail when no alternative consumes input', () => {
+            type Loop = {
+                loop: unknown;
+            };
+
+            const { loop } = grammar<Loop>({
+                loop: ({ loop }) => sequence(loop, char('x')),
+            });
+
+            expect(run(loop, 'xxx')).toBeNull();
+        });
+    });
+});
+
+describe('run', () => {
+    const list = sequence(
+        char('['),
+        regex(/\s*\d+/),
+        many(sequence(char(','), regex(/\s*\d+/))),
+        choice<unknown>(char(']'), sequence(char(';'), char(']'))),
+    );
+
+    it('should return the parsed value', () => {
+        expect(run(literal('foo'), 'foo ')).toEqual('foo');
+    });
+
+    it('should return null and report the failure position', () => {
+        const errors: ParseError[] = [];
+        const result = run(list, '[1,\n2,3x]', {
+            onError: (error) => errors.push(error),
+        });
+
+        expect(result).toBeNull();
+        expect(errors).toEqual([
+            {
+                offset: 7,
+                line: 2,
+                column: 4,
+                expected: ['"]"', '";"'],
+                message:
+                    'Unexpected "x" at line 2, column 4, expected "]" or ";"',
+            },
+        ]);
+    });
+
+    it('should report the furthest failure of all alternatives', () => {
+        const errors: ParseError[] = [];
+        const parser = choice<unknown>(
+            sequence(literal('let'), char(' '), regex(/[a-z]+/)),
+            literal('const'),
+        );
+
+        run(parser, 'let 1', { onError: (error) => errors.push(error) });
+
+        expect(errors[0]).toMatchObject({
+            offset: 4,
+            expected: ['/[a-z]+/'],
+        });
+    });
+
+    it('should parse large inputs', () => {
+        const input = 'a,'.repeat(200_000);
+        const result = run(many(sequence(char('a'), char(','))), input);
+
+        expect(result).toHaveLength(200_000);
+    });
+
+    it('should report unconsumed input', () => {
+        const errors: ParseError[] = [];
+        const result = run(literal('foo'), 'foo bar', {
+            onError: (error) => errors.push(error),
+        });
+
+        expect(result).toBeNull();
+        expect(errors[0]).toMatchObject({
+            offset: 4,
+            line: 1,
+            column: 5,
+            expected: ['end of input'],
+        });
+    });
+
+    it('should return the partial result and report recovered errors', () => {
+        const errors: ParseError[] = [];
+        const statement = recover(
+            sequence(regex(/[a-z]+/), char('='), regex(/\d+/), char(';')),
+            char(';'),
+            () => null,
+        );
+        const result = run(many(lexeme(statement)), 'a=1;\nb=;\nc=;\nd=4;', {
+            onError: (error) => errors.push(error),
+        });
+
+        expect(result).toEqual([
+            ['a', '=', '1', ';'],
+            null,
+            null,
+            ['d', '=', '4', ';'],
+        ]);
+        expect(errors.map(({ line, column }) => [line, column])).toEqual([
+            [2, 3],
+            [3, 3],
+        ]);
+    });
+
+    it('should report an unexpected end of input', () => {
+        const errors: ParseError[] = [];
+        run(literal('foo'), 'fo', { onError: (error) => errors.push(error) });
+
+        expect(errors[0].message).toEqual(
+            'Unexpected "f" at line 1, column 1, expected "foo"',
+        );
+    });
+
+    describe('options', () => {
+        it('should reject trailing whitespace when strict', () => {
+            const errors: ParseError[] = [];
+            const result = run(literal('foo'), 'foo ', {
+                strict: true,
+                onError: (error) => errors.push(error),
+            });
+
+            expect(result).toBeNull();
+            expect(errors[0]).toMatchObject({
+                offset: 3,
+                expected: ['end of input'],
+            });
+            expect(run(literal('foo'), 'foo', { strict: true })).toBe('foo');
+        });
+
+        it('should skip a custom trailing parser', () => {
+            const comment = regex(/\s*#[^\n]*/);
+
+            expect(
+                run(literal('a'), 'a # one\n# two', { trailing: comment }),
+            ).toBe('a');
+            expect(
+                run(literal('a'), 'a # one\nb', { trailing: comment }),
+            ).toBeNull();
+        });
+
+        it('should return the value and offset of a partial parse', () => {
+            const result = run(literal('foo'), 'foo bar', { partial: true });
+
+            expect(result).toEqual({ value: 'foo', offset: 3 });
+            expect(run(literal('foo'), 'bar', { partial: true })).toBeNull();
+            assertType<{ value: 'foo'; offset: number } | null>(result);
+        });
+
+        it('should return a result object', () => {
+            const result = run(literal('foo'), 'foo', { result: true });
+            expect(result).toEqual({
+                ok: true,
+                value: 'foo',
+                offset: 3,
+                diagnostics: [],
+            });
+
+            const failed = run(literal('foo'), 'fox', { result: true });
+            expect(failed).toMatchObject({
+                ok: false,
+                error: { offset: 0, expected: ['"foo"'] },
+                diagnostics: [],
+            });
+            assertType<RunResult<'foo'>>(failed);
+        });
+
+        it('should include recovered diagnostics in the result object', () => {
+            const statement = recover(
+                sequence(regex(/[a-z]/), char(';')),
+                char(';'),
+                () => null,
+            );
+            const result = run(many(statement), 'a;bb;c;', {
+                result: true,
+                partial: true,
+            });
+
+            expect(result).toMatchObject({
+                ok: true,
+                value: [['a', ';'], null, ['c', ';']],
+                offset: 7,
+                diagnostics: [{ offset: 3, expected: ['";"'] }],
+            });
+        });
+    });
 });
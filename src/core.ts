@@ -1,24 +1,150 @@
-import { Grammar, Parser } from './types';
-import { lazy } from './combinators';
+import {
+    Cursor,
+    Grammar,
+    GrammarOptions,
+    Parser,
+    ParserFunction,
+    PartialRun,
+    RunOptions,
+    RunResult,
+} from './types';
+import { invoke, lazy, rule } from './combinators';
+import { failure, isFailure } from './results';
+import { collect, report } from './errors';
+import { advance, begin, same } from './cursor';
+import { toSink } from './trace';
 
-export const run = <T>(parser: Parser<T>, input: string): T | null => {
-    const result = parser(input);
-    if (!result) {
-        return null;
+const whitespace = /\s*/y;
+
+/**
+ * skips ignorable input after the parsed value, whitespace unless configured
+ */
+const skip = (cursor: Cursor, options: RunOptions) => {
+    if (options.strict) {
+        return cursor;
     }
 
-    const remainder = result[1].trim();
+    const { trailing } = options;
+    if (!trailing) {
+        whitespace.lastIndex = cursor.offset;
+        whitespace.exec(cursor.source);
+
+        return advance(cursor, whitespace.lastIndex - cursor.offset);
+    }
 
-    return remainder === '' ? result[0] : null;
+    let current = cursor;
+
+    while (true) {
+        const result = invoke(trailing, current);
+        if (isFailure(result) || same(result[1], current)) {
+            return current;
+        }
+
+        current = result[1];
+    }
 };
 
+const conclude = <T>(
+    parser: ParserFunction<T>,
+    input: string,
+    options: RunOptions,
+): RunResult<T> => {
+    const start = begin(
+        input,
+        options.trace ? toSink(options.trace) : undefined,
+    );
+    const result = invoke(parser, start);
+    options.onMemoStats?.(start.context.stats);
+
+    if (isFailure(result)) {
+        return {
+            ok: false,
+            error: report(result, input, undefined, start.context),
+            diagnostics: [],
+        };
+    }
+
+    const [value, end] = result;
+    const diagnostics = collect(end.diagnostics);
+
+    if (!options.partial) {
+        const rest = skip(end, options);
+        if (rest.offset !== rest.source.length) {
+            const error = report(
+                failure(rest.offset, 'end of input'),
+                rest.source,
+                undefined,
+                start.context,
+            );
+
+            return { ok: false, error, diagnostics };
+        }
+    }
+
+    return { ok: true, value, offset: end.offset, diagnostics };
+};
+
+/**
+ * parses the whole input, or a prefix of it with partial
+ * recovered diagnostics and the failure are passed to onError in order
+ * with result a RunResult is returned instead of the value or null
+ */
+export function run<T>(
+    parser: ParserFunction<T>,
+    input: string,
+    options: RunOptions & { result: true },
+): RunResult<T>;
+export function run<T>(
+    parser: ParserFunction<T>,
+    input: string,
+    options: RunOptions & { partial: true },
+): PartialRun<T> | null;
+export function run<T>(
+    parser: ParserFunction<T>,
+    input: string,
+    options?: RunOptions,
+): T | null;
+export function run<T>(
+    parser: ParserFunction<T>,
+    input: string,
+    options: RunOptions = {},
+) {
+    const outcome = conclude(parser, input, options);
+
+    for (const error of outcome.diagnostics) {
+        options.onError?.(error);
+    }
+
+    if (!outcome.ok) {
+        options.onError?.(outcome.error);
+    }
+
+    if (options.result) {
+        return outcome;
+    }
+
+    if (!outcome.ok) {
+        return null;
+    }
+
+    return options.partial
+        ? { value: outcome.value, offset: outcome.offset }
+        : outcome.value;
+}
+
 export const grammar = <T extends Record<string, unknown>>(
     definitions: Grammar<T>,
+    options: GrammarOptions = {},
 ): { [K in keyof T]: Parser<T[K]> } => {
     const parsers = {} as { [K in keyof T]: Parser<T[K]> };
 
     for (const key in definitions) {
-        parsers[key] = lazy(() => definitions[key](parsers));
+        // lazy builds the rule once, on first use, as it may refer to later rules
+        parsers[key] = rule(
+            lazy(() => definitions[key](parsers)),
+            key,
+            options.memoize,
+        );
     }
 
     return parsers;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { advance, cursorAt, remaining, same } from './cursor';
+
+describe('cursor', () => {
+    describe('cursorAt', () => {
+        it('should point at the start of the source by default', () => {
+            expect(cursorAt('abc')).toEqual({ source: 'abc', offset: 0 });
+        });
+
+        it('should point at the given offset', () => {
+            expect(cursorAt('abc', 2)).toEqual({ source: 'abc', offset: 2 });
+        });
+    });
+
+    describe('advance', () => {
+        it('should move the offset without touching the source', () => {
+            const cursor = cursorAt('abcdef', 1);
+            const next = advance(cursor, 3);
+
+            expect(next).toEqual({ source: 'abcdef', offset: 4 });
+            expect(cursor.offset).toBe(1);
+        });
+    });
+
+    describe('remaining', () => {
+        it('should return the unconsumed input', () => {
+            expect(remaining(cursorAt('abcdef', 4))).toBe('ef');
+            expect(remaining(cursorAt('abc', 3))).toBe('');
+        });
+    });
+
+    describe('same', () => {
+        it('should compare source and offset', () => {
+            expect(same(cursorAt('abc', 1), cursorAt('abc', 1))).toBe(true);
+            expect(same(cursorAt('abc', 1), cursorAt('abc', 2))).toBe(false);
+            expect(same(cursorAt('abc', 0), cursorAt('bc', 0))).toBe(false);
+        });
+    });
+});
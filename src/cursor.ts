@@ -0,0 +1,50 @@
+import { Context, Cursor, TraceSink } from './types';
+
+export const cursorAt = (source: string, offset = 0): Cursor => ({
+    source,
+    offset,
+});
+
+/**
+ * starts a new parse of the source with its own context
+ */
+export const begin = (
+    source: string,
+    trace?: TraceSink,
+): Cursor & { context: Context } => ({
+    source,
+    offset: 0,
+    context: {
+        source,
+        memo: new Map(),
+        stats: {},
+        rules: [],
+        active: new Map(),
+        trace,
+        depth: 0,
+        reach: 0,
+    },
+});
+
+/**
+ * records that parsing looked at the source up to offset, exclusive, so a
+ * result that looked past the end may change with more input
+ * parsers reading the source on their own are taken to look no further than
+ * where they fail or stop
+ */
+export const reach = (cursor: Cursor, offset: number) => {
+    const { context } = cursor;
+    if (context && offset > context.reach) {
+        context.reach = offset;
+    }
+};
+
+export const advance = (cursor: Cursor, length: number): Cursor => ({
+    ...cursor,
+    offset: cursor.offset + length,
+});
+
+export const remaining = (cursor: Cursor) => cursor.source.slice(cursor.offset);
+
+export const same = (a: Cursor, b: Cursor) =>
+    a.offset === b.offset && a.source === b.source;
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { ebnf } from './ebnf';
+import {
+    choice,
+    exactly,
+    gen,
+    label,
+    lazy,
+    manyBetween,
+    many,
+    many1,
+    map,
+    optional,
+    sepBy,
+    sepEndBy,
+    sequence,
+    token,
+} from './combinators';
+import { char, literal, regex } from './terminals';
+import { digit } from './primitives';
+import { grammar } from './core';
+import { jsonGrammar } from './parsers';
+
+describe('ebnf', () => {
+    it('should write one production per rule', () => {
+        type Rules = { list: unknown; item: unknown };
+        const rules = grammar<Rules>({
+            list: ({ item }) =>
+                sequence(char('['), sepBy(item, char(',')), char(']')),
+            item: ({ list }) => choice<unknown>(regex(/[0-9]+/), list),
+        });
+
+        expect(ebnf(rules)).toBe(
+            [
+                `list ::= "[" (item ("," item)*)? "]"`,
+                'item ::= [0-9]+ | list',
+            ].join('\n'),
+        );
+    });
+
+    it('should group nested expressions', () => {
+        const { rule } = grammar({
+            rule: () =>
+                sequence(
+                    many(sequence(literal('a'), literal('b'))),
+                    many1(choice(literal('c'), token('d'))),
+                    optional(many(literal('e'))),
+                ),
+        });
+
+        expect(ebnf({ rule })).toBe(`rule ::= ("a" "b")* ("c" | "d")+ ("e"*)?`);
+    });
+
+    it('should see through mapping and labels', () => {
+        const { number } = grammar({
+            number: () => label(map(regex(/^[0-9]/), Number), 'number'),
+        });
+
+        expect(ebnf({ number })).toBe('number ::= [0-9]');
+    });
+
+    it('should spell out counted repetitions', () => {
+        const a = literal('a');
+        const { counted } = grammar({
+            counted: () =>
+                sequence(exactly(a, 2), manyBetween(literal('b'), 1, 3)),
+        });
+
+        expect(ebnf({ counted })).toBe(`counted ::= "a" "a" "b" "b"? "b"?`);
+    });
+
+    it('should describe trailing separators', () => {
+        const { items } = grammar({
+            items: () => sepEndBy(literal('x'), literal(';'), { min: 1 }),
+        });
+
+        expect(ebnf({ items })).toBe(`items ::= "x" (";" "x")* ";"?`);
+    });
+
+    it('should quote terminals and keep other patterns as regex', () => {
+        const { quoted } = grammar({
+            quoted: () =>
+                sequence(
+                    literal('"'),
+                    literal("it's"),
+                    literal('a\tb'),
+                    regex(/\d+/i),
+                ),
+        });
+
+        expect(ebnf({ quoted })).toBe(
+            `quoted ::= '"' "it's" "a" #x9 "b" /\\d+/i`,
+        );
+    });
+
+    it('should name parsers without structure', () => {
+        const { opaque } = grammar({
+            opaque: () =>
+                sequence(
+                    digit,
+                    gen(function* () {
+                        return yield* literal('x');
+                    }),
+                ),
+        });
+
+        expect(ebnf({ opaque })).toBe('opaque ::= <digit> <gen>');
+    });
+
+    it('should name empty choices', () => {
+        const { never } = grammar({ never: () => choice() });
+
+        expect(ebnf({ never })).toBe('never ::= <fail>');
+    });
+
+    it('should stop at recursion outside of rules', () => {
+        const nested: ReturnType<typeof lazy<unknown>> = lazy(() =>
+            optional(sequence(char('('), nested, char(')'))),
+        );
+        const { parens } = grammar({ parens: () => nested });
+
+        expect(ebnf({ parens })).toBe(`parens ::= ("(" <lazy> ")")?`);
+    });
+
+    it('should align productions', () => {
+        const lines = ebnf(grammar(jsonGrammar)).split('\n');
+
+        expect(lines[0]).toBe('text    ::= /[ \\t\\n\\r]*/ value');
+        expect(lines[7]).toBe('literal ::= "true" | "false" | "null"');
+    });
+
+    it('should break long choices into one alternative per line', () => {
+        const words = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot'];
+        const { word } = grammar({
+            word: () => choice(...words.map((w) => literal(w + w))),
+        });
+
+        expect(ebnf({ word }).split('\n')).toEqual([
+            'word ::= "alphaalpha"',
+            '       | "bravobravo"',
+            '       | "charliecharlie"',
+            '       | "deltadelta"',
+            '       | "echoecho"',
+            '       | "foxtrotfoxtrot"',
+        ]);
+    });
+});
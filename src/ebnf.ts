@@ -0,0 +1,124 @@
+import { Expression, ParserFunction } from './types';
+import { productions } from './outline';
+import { stickySource } from './terminals';
+
+const width = 80;
+
+const quote = (text: string) =>
+    !text.includes('"')
+        ? `"${text}"`
+        : !text.includes("'")
+          ? `'${text}'`
+          : JSON.stringify(text);
+
+/**
+ * quoted runs of text, control characters are written as #xN
+ */
+const terminal = (text: string) => {
+    const parts: string[] = [];
+    let run = '';
+
+    for (const char of text) {
+        if (char >= ' ' && char !== '\x7f') {
+            run += char;
+            continue;
+        }
+
+        if (run !== '') {
+            parts.push(quote(run));
+            run = '';
+        }
+
+        parts.push(`#x${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    }
+
+    if (run !== '') {
+        parts.push(quote(run));
+    }
+
+    return parts;
+};
+
+/**
+ * plain character classes are valid ebnf, other patterns are kept as regex
+ */
+const pattern = (regex: RegExp) => {
+    const source = stickySource(regex) ?? regex.source;
+
+    return regex.flags === '' && /^\[\^?[^\]\\]+\][*+?]?$/.test(source)
+        ? source
+        : `/${source}/${regex.flags}`;
+};
+
+/**
+ * the text of an expression and how tightly it binds,
+ * 0 for choices, 1 for sequences and postfix operators, 2 for primaries
+ */
+const render = (expression: Expression): [string, number] => {
+    switch (expression.type) {
+        case 'terminal': {
+            const parts = terminal(expression.text);
+
+            return parts.length === 0
+                ? ['""', 2]
+                : [parts.join(' '), parts.length > 1 ? 1 : 2];
+        }
+        case 'pattern': {
+            const text = pattern(expression.pattern);
+
+            return [text, /[*+?]$/.test(text) ? 1 : 2];
+        }
+        case 'reference':
+            return [expression.name, 2];
+        case 'special':
+            return [`<${expression.text}>`, 2];
+        case 'sequence':
+            return expression.items.length === 0
+                ? ['()', 2]
+                : [expression.items.map((item) => print(item, 1)).join(' '), 1];
+        case 'choice':
+            return [
+                expression.options
+                    .map((option) => print(option, 1))
+                    .join(' | '),
+                0,
+            ];
+        case 'optional':
+            return [`${print(expression.item, 2)}?`, 1];
+        case 'repeat':
+            return [
+                `${print(expression.item, 2)}${expression.min === 0 ? '*' : '+'}`,
+                1,
+            ];
+    }
+};
+
+const print = (expression: Expression, level: number): string => {
+    const [text, binding] = render(expression);
+
+    return binding < level ? `(${text})` : text;
+};
+
+/**
+ * the rules of a grammar as w3c style ebnf, one production per rule
+ * choices too long for one line put each alternative on its own line
+ */
+export const ebnf = (rules: Record<string, ParserFunction>) => {
+    const definitions = productions(rules);
+    const indent = Math.max(0, ...definitions.map(([name]) => name.length));
+
+    return definitions
+        .map(([name, expression]) => {
+            const head = `${name.padEnd(indent)} ::= `;
+            const line = head + print(expression, 0);
+            if (line.length <= width || expression.type !== 'choice') {
+                return line;
+            }
+
+            return expression.options
+                .map((option) => print(option, 1))
+                .join(`\n${' '.repeat(indent + 3)}| `)
+                .replace(/^/, head);
+        })
+        .join('\n');
+};
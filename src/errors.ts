@@ -0,0 +1,53 @@
+import { Context, Diagnostics, Failure, ParseError, Position } from './types';
+import { locate, shift } from './position';
+
+export const listExpected = (expected: readonly string[]) => {
+    if (expected.length === 0) {
+        return '';
+    }
+
+    if (expected.length === 1) {
+        return `, expected ${expected[0]}`;
+    }
+
+    return `, expected ${expected.slice(0, -1).join(', ')} or ${expected[expected.length - 1]}`;
+};
+
+/**
+ * turns a failure into an error report relative to the whole source
+ * with an origin the source is a slice starting at that position, with the
+ * context of its parse the line starts found during the parse are reused
+ */
+export const report = (
+    failure: Failure,
+    source: string,
+    origin?: Position,
+    context?: Context,
+): ParseError => {
+    const offset = failure.offset ?? 0;
+    const located = locate(source, offset, context);
+    const position = origin ? shift(located, origin) : located;
+    const found =
+        offset < source.length
+            ? JSON.stringify(source[offset])
+            : 'end of input';
+
+    return {
+        ...position,
+        expected: failure.expected,
+        message: `Unexpected ${found} at line ${position.line}, column ${position.column}${listExpected(failure.expected)}`,
+    };
+};
+
+/**
+ * lists recorded diagnostics in the order they were recovered from
+ */
+export const collect = (diagnostics?: Diagnostics): ParseError[] => {
+    const errors: ParseError[] = [];
+
+    for (let node = diagnostics; node; node = node.previous) {
+        errors.unshift(node.error);
+    }
+
+    return errors;
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import * as unitas from './index';
+import * as parsers from './parsers';
+import * as stream from './stream';
+
+describe('index', () => {
+    it('should export the public api', () => {
+        expect(Object.keys(unitas).sort()).toEqual([
+            'advance',
+            'anyChar',
+            'chain',
+            'char',
+            'choice',
+            'commit',
+            'create',
+            'cursorAt',
+            'define',
+            'digit',
+            'digits',
+            'ebnf',
+            'eof',
+            'exactly',
+            'fail',
+            'failure',
+            'filter',
+            'first',
+            'flatMap',
+            'fold',
+            'fold1',
+            'foldRight',
+            'foldRight1',
+            'fromPeg',
+            'fromTuple',
+            'gen',
+            'grammar',
+            'inspect',
+            'invoke',
+            'isFailure',
+            'isSuccess',
+            'label',
+            'last',
+            'lazy',
+            'left',
+            'letter',
+            'lexeme',
+            'lint',
+            'literal',
+            'locate',
+            'located',
+            'many',
+            'many1',
+            'manyAtLeast',
+            'manyAtMost',
+            'manyBetween',
+            'map',
+            'mapResult',
+            'memo',
+            'merge',
+            'middle',
+            'not',
+            'notFollowedBy',
+            'nth',
+            'optional',
+            'optionalSkip',
+            'optionalWith',
+            'peek',
+            'precedence',
+            'railroad',
+            'railroadHtml',
+            'recover',
+            'refine',
+            'regex',
+            'remaining',
+            'report',
+            'right',
+            'rule',
+            'run',
+            'satisfy',
+            'sepBy',
+            'sepBy1',
+            'sepEndBy',
+            'sequence',
+            'step',
+            'success',
+            'toTuple',
+            'token',
+            'traceTree',
+            'until',
+            'unwrap',
+        ]);
+    });
+
+    it('should keep bundled formats and streaming in subpaths', () => {
+        expect(Object.keys(parsers).sort()).toEqual([
+            'csv',
+            'json',
+            'jsonGrammar',
+        ]);
+        expect(Object.keys(stream).sort()).toEqual([
+            'feed',
+            'parseAll',
+            'parseAllAsync',
+            'stream',
+        ]);
+        expect(unitas).not.toHaveProperty('json');
+        expect(unitas).not.toHaveProperty('feed');
+    });
+
+    it('should parse with the exported api', () => {
+        const { run, sequence, literal, map, regex } = unitas;
+        const pair = map(
+            sequence(regex(/[a-z]+/), literal('='), regex(/\d+/)),
+            ([key, , value]) => ({ [key]: Number(value) }),
+        );
+
+        expect(run(pair, 'a=1')).toEqual({ a: 1 });
+    });
+});
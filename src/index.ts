@@ -0,0 +1,116 @@
+export { grammar, run } from './core';
+export {
+    chain,
+    choice,
+    commit,
+    create,
+    define,
+    exactly,
+    filter,
+    first,
+    flatMap,
+    fold,
+    fold1,
+    foldRight,
+    foldRight1,
+    gen,
+    invoke,
+    label,
+    last,
+    lazy,
+    left,
+    lexeme,
+    located,
+    many,
+    many1,
+    manyAtLeast,
+    manyAtMost,
+    manyBetween,
+    map,
+    memo,
+    middle,
+    not,
+    notFollowedBy,
+    nth,
+    optional,
+    optionalSkip,
+    optionalWith,
+    peek,
+    recover,
+    refine,
+    right,
+    rule,
+    sepBy,
+    sepBy1,
+    sepEndBy,
+    sequence,
+    token,
+    until,
+} from './combinators';
+export { char, literal, regex } from './terminals';
+export { anyChar, digit, digits, eof, letter, satisfy } from './primitives';
+export {
+    fail,
+    failure,
+    fromTuple,
+    isFailure,
+    isSuccess,
+    mapResult,
+    merge,
+    step,
+    success,
+    toTuple,
+    unwrap,
+} from './results';
+export { advance, cursorAt, remaining } from './cursor';
+export { report } from './errors';
+export { locate } from './position';
+export { inspect } from './inspect';
+export { ebnf } from './ebnf';
+export { railroad, railroadHtml } from './railroad';
+export { fromPeg } from './peg';
+export { lint } from './lint';
+export { precedence } from './precedence';
+export { traceTree } from './trace';
+export type {
+    Associativity,
+    ChunkSource,
+    CsvOptions,
+    Cursor,
+    Expression,
+    Failure,
+    Feed,
+    Grammar,
+    GrammarOptions,
+    Inspection,
+    JsonRules,
+    JsonValue,
+    LintIssue,
+    LintOptions,
+    Located,
+    MemoStats,
+    Meta,
+    OperatorLevel,
+    ParseError,
+    ParseFailure,
+    ParseResult,
+    ParseSuccess,
+    Parser,
+    ParserFunction,
+    PartialRun,
+    PegActions,
+    Position,
+    Recovered,
+    Reply,
+    Result,
+    RunOptions,
+    RunResult,
+    SepByOptions,
+    Separated,
+    Step,
+    StreamOptions,
+    Success,
+    TraceEvent,
+    TraceSink,
+    Trailing,
+} from './types';
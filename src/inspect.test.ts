@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { inspect } from './inspect';
+import {
+    choice,
+    create,
+    label,
+    lazy,
+    many,
+    map,
+    optional,
+    sepBy,
+    sequence,
+    token,
+} from './combinators';
+import { char, literal, regex } from './terminals';
+import { digit } from './primitives';
+import { grammar } from './core';
+import { success } from './results';
+import { ParserFunction } from './types';
+
+describe('inspect', () => {
+    it('should describe terminals', () => {
+        expect(inspect(literal('if'))).toMatchObject({
+            kind: 'literal',
+            text: 'if',
+            children: [],
+            displayName: 'literal("if")',
+        });
+        expect(inspect(char('x'))).toMatchObject({ kind: 'char', text: 'x' });
+        expect(inspect(regex(/\d+/i)).pattern).toEqual(/\d+/i);
+        expect(inspect(token('=')).text).toBe('=');
+    });
+
+    it('should list the children of combinators', () => {
+        const a = literal('a');
+        const b = regex(/b/);
+        const parser = map(sequence(a, many(choice(a, b))), () => 1);
+
+        const mapped = inspect(parser);
+        expect(mapped.kind).toBe('map');
+
+        const [seq] = mapped.children;
+        expect(inspect(seq).kind).toBe('sequence');
+        expect(inspect(seq).children[0]).toBe(a);
+
+        const repeated = inspect(inspect(seq).children[1]);
+        expect(repeated.kind).toBe('many');
+        expect(inspect(repeated.children[0]).children).toEqual([a, b]);
+    });
+
+    it('should describe separators and optional parsers', () => {
+        const item = literal('x');
+        const comma = literal(',');
+
+        expect(inspect(sepBy(item, comma))).toMatchObject({
+            kind: 'sepBy',
+            children: [item, comma],
+        });
+        expect(inspect(optional(item))).toMatchObject({
+            kind: 'optional',
+            children: [item],
+        });
+    });
+
+    it('should name rules and labels', () => {
+        const { value } = grammar({ value: () => digit });
+        const named = label(digit, 'number');
+
+        expect(inspect(value)).toMatchObject({ kind: 'rule', name: 'value' });
+        expect(inspect(named)).toMatchObject({
+            kind: 'label',
+            name: 'number',
+            children: [digit],
+        });
+    });
+
+    it('should resolve lazy parsers on inspection', () => {
+        const inner = literal('a');
+
+        expect(inspect(lazy(() => inner)).children).toEqual([inner]);
+    });
+
+    it('should resolve lazy parsers to the same child every time', () => {
+        const parser = lazy(() => many(char('x')));
+        const { list } = grammar({ list: () => many(char('x')) });
+        const [body] = inspect(list).children;
+
+        expect(inspect(parser).children[0]).toBe(inspect(parser).children[0]);
+        expect(inspect(body).children[0]).toBe(inspect(body).children[0]);
+    });
+
+    it('should describe named wrappers and opaque functions', () => {
+        const raw = () => success('a', '');
+
+        expect(inspect(raw)).toEqual({
+            kind: 'opaque',
+            children: [],
+            displayName: undefined,
+        });
+        expect(inspect(create(raw, 'custom'))).toMatchObject({
+            kind: 'custom',
+            children: [raw],
+        });
+    });
+
+    it('should let tooling walk recursive grammars', () => {
+        type Rules = { list: unknown; item: unknown };
+        const { list } = grammar<Rules>({
+            list: ({ item }) => sequence(char('['), many(item), char(']')),
+            item: ({ list }) => choice<unknown>(regex(/\d/), list),
+        });
+
+        const names: string[] = [];
+        const seen = new Set<ParserFunction>();
+        const walk = (parser: ParserFunction) => {
+            const node = inspect(parser);
+            if (node.kind === 'rule') {
+                if (seen.has(parser)) {
+                    return;
+                }
+
+                seen.add(parser);
+                names.push(node.name ?? '');
+            }
+
+            node.children.forEach(walk);
+        };
+        walk(list);
+
+        expect(names).toEqual(['list', 'item']);
+    });
+});
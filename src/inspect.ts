@@ -0,0 +1,11 @@
+import { Inspection, ParserFunction } from './types';
+
+/**
+ * the structure of a parser, for tooling that walks the parser graph
+ * plain string functions have no structure and are reported as opaque
+ */
+export const inspect = (parser: ParserFunction<unknown>): Inspection => {
+    const { kind = 'opaque', children = [], ...meta } = parser.meta ?? {};
+
+    return { ...meta, kind, children, displayName: parser.displayName };
+};
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { lint } from './lint';
+import {
+    choice,
+    fold,
+    many,
+    many1,
+    map,
+    memo,
+    optional,
+    sepBy,
+    sepBy1,
+    sequence,
+    token,
+} from './combinators';
+import { char, literal, regex } from './terminals';
+import { grammar } from './core';
+import { jsonGrammar } from './parsers';
+import { fromPeg } from './peg';
+import { ParserFunction } from './types';
+
+describe('lint', () => {
+    it('should accept a sound grammar', () => {
+        expect(lint(grammar(jsonGrammar))).toEqual([]);
+    });
+
+    it('should find repetitions of nullable parsers', () => {
+        const issues = lint(
+            grammar({
+                spaces: () => many(regex(/\s*/)),
+                words: () => many1(optional(literal('a'))),
+                sum: () =>
+                    fold(
+                        sequence(optional(char('+')), optional(char('1'))),
+                        0,
+                        (acc) => acc + 1,
+                    ),
+                list: () => sepBy(optional(char('x')), regex(/,?/)),
+                fine: () => many(sepBy1(char('x'), char(','))),
+            }),
+            { start: 'fine' },
+        ).filter(({ type }) => type === 'nullable-repetition');
+
+        expect(issues).toEqual([
+            {
+                type: 'nullable-repetition',
+                rule: 'spaces',
+                message:
+                    'many in rule "spaces" repeats a parser that can succeed without consuming input',
+            },
+            expect.objectContaining({ rule: 'words' }),
+            expect.objectContaining({ rule: 'sum' }),
+            expect.objectContaining({ rule: 'list' }),
+        ]);
+    });
+
+    it('should see nullable rules through references', () => {
+        type Rules = { items: unknown; item: unknown };
+        const issues = lint(
+            grammar<Rules>({
+                items: ({ item }) => map(many(item), (items) => items.length),
+                item: () => optional(literal('a')),
+            }),
+        );
+
+        expect(issues).toEqual([
+            expect.objectContaining({
+                type: 'nullable-repetition',
+                rule: 'items',
+            }),
+        ]);
+    });
+
+    it('should find left recursion', () => {
+        type Rules = { expr: unknown; term: unknown; atom: unknown };
+        const issues = lint(
+            grammar<Rules>({
+                expr: ({ term }) =>
+                    choice<unknown>(
+                        sequence(optional(char(' ')), term),
+                        char('x'),
+                    ),
+                term: ({ expr }) => sequence(expr, char('*')),
+                atom: ({ atom }) => sequence(char('('), atom, char(')')),
+            }),
+            { start: 'expr' },
+        );
+
+        expect(issues).toEqual([
+            {
+                type: 'left-recursion',
+                rule: 'expr',
+                message: 'rule "expr" is left recursive: expr -> term -> expr',
+            },
+            expect.objectContaining({ type: 'unused-rule', rule: 'atom' }),
+        ]);
+    });
+
+    it('should find undefined and unused rules', () => {
+        const undefinedRule = undefined as unknown as ParserFunction;
+        const issues = lint(
+            grammar({
+                main: () => sequence(char('a'), undefinedRule),
+                helper: () => char('b'),
+            }),
+        );
+
+        expect(issues).toEqual([
+            {
+                type: 'undefined-rule',
+                rule: 'main',
+                message: 'rule "main" refers to an undefined parser',
+            },
+            {
+                type: 'unused-rule',
+                rule: 'helper',
+                message: 'rule "helper" is not reachable from rule "main"',
+            },
+        ]);
+    });
+
+    it('should find literal alternatives shadowed by a prefix', () => {
+        const issues = lint(
+            grammar({
+                operator: () =>
+                    choice(
+                        literal('='),
+                        token('<'),
+                        map(literal('=='), () => 'eq'),
+                        literal('<='),
+                        literal('!='),
+                    ),
+            }),
+        );
+
+        expect(issues.map(({ message }) => message)).toEqual([
+            'alternative "==" in rule "operator" can never match, "=" matches first',
+            'alternative "<=" in rule "operator" can never match, "<" matches first',
+        ]);
+    });
+
+    it('should treat memoized parsers as rules of their own', () => {
+        const blank = memo(optional(literal(' ')), 'blank');
+        const issues = lint(grammar({ main: () => many(blank) }));
+
+        expect(issues).toEqual([
+            expect.objectContaining({
+                type: 'nullable-repetition',
+                rule: 'main',
+            }),
+        ]);
+    });
+
+    it('should lint grammars loaded from peg text', () => {
+        const issues = lint(
+            fromPeg(`
+                list  <- item*
+                item  <- space? 'x' / space?
+                space <- ' '
+            `),
+        );
+
+        expect(issues.map(({ type }) => type)).toEqual(['nullable-repetition']);
+    });
+
+    it('should reject an unknown start rule', () => {
+        expect(() =>
+            lint(grammar({ main: () => char('a') }), { start: 'other' }),
+        ).toThrow('Unknown start rule "other"');
+    });
+});
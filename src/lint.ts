@@ -0,0 +1,370 @@
+import { Inspection, LintIssue, LintOptions, ParserFunction } from './types';
+import { inspect } from './inspect';
+import { stickySource } from './terminals';
+
+const repetitions = new Set([
+    'many',
+    'many1',
+    'manyAtLeast',
+    'fold',
+    'fold1',
+    'foldRight',
+    'foldRight1',
+]);
+
+const separators = new Set(['sepBy', 'sepBy1', 'sepEndBy']);
+
+// wrappers that succeed exactly when the parser they wrap does
+const wrappers = new Set(['map', 'label', 'lexeme', 'located', 'commit']);
+
+const matchesEmpty = (pattern: RegExp) =>
+    new RegExp(
+        stickySource(pattern) ?? pattern.source,
+        pattern.flags.replace(/[gy]/g, ''),
+    ).test('');
+
+/**
+ * finds grammar mistakes the parsers would only show as odd results:
+ * repetitions of parsers that can succeed without consuming input, left
+ * recursion, undefined parsers, rules unreachable from the start rule and
+ * literal alternatives of a choice that an earlier literal always shadows
+ * the start rule defaults to the first rule of the grammar
+ */
+export const lint = (
+    rules: Record<string, ParserFunction>,
+    options: LintOptions = {},
+): LintIssue[] => {
+    const start = options.start ?? Object.keys(rules)[0];
+    if (start !== undefined && !(start in rules)) {
+        throw new Error(`Unknown start rule "${start}"`);
+    }
+
+    const inspected = new Map<ParserFunction, Inspection>();
+    const node = (parser: ParserFunction) => {
+        let result = inspected.get(parser);
+        if (!result) {
+            result = inspect(parser);
+            inspected.set(parser, result);
+        }
+
+        return result;
+    };
+
+    // named rules are analysed on their own, the rest is part of a rule body
+    const names = new Map<ParserFunction, string>();
+    const named = (parser: ParserFunction) => {
+        const { kind, name } = node(parser);
+
+        return kind === 'rule' && name !== undefined;
+    };
+
+    const body = (unit: ParserFunction) =>
+        named(unit) ? node(unit).children[0] : unit;
+
+    const boundary = (parser: ParserFunction) =>
+        names.has(parser) || named(parser);
+
+    // the parsers of a unit up to the other units it refers to
+    const parts = (unit: ParserFunction) => {
+        const found: (ParserFunction | undefined)[] = [body(unit)];
+        const seen = new Set(found);
+
+        for (let i = 0; i < found.length; i++) {
+            const parser = found[i];
+            if (typeof parser !== 'function' || (i > 0 && boundary(parser))) {
+                continue;
+            }
+
+            for (const child of node(parser).children) {
+                if (!seen.has(child)) {
+                    seen.add(child);
+                    found.push(child);
+                }
+            }
+        }
+
+        return found;
+    };
+
+    const units: ParserFunction[] = [];
+    const add = (parser: ParserFunction, name: string) => {
+        if (!names.has(parser)) {
+            names.set(parser, name);
+            units.push(parser);
+        }
+    };
+
+    for (const [name, parser] of Object.entries(rules)) {
+        add(parser, name);
+    }
+
+    for (let i = 0; i < units.length; i++) {
+        for (const part of parts(units[i])) {
+            if (typeof part === 'function' && named(part)) {
+                add(part, node(part).name ?? '');
+            }
+        }
+    }
+
+    const nullableUnits = new Set<ParserFunction>();
+    const nullable = (
+        parser: ParserFunction | undefined,
+        active = new Set<ParserFunction>(),
+    ): boolean => {
+        if (typeof parser !== 'function') {
+            return false;
+        }
+
+        return names.has(parser)
+            ? nullableUnits.has(parser)
+            : derive(parser, active);
+    };
+
+    const derive = (
+        parser: ParserFunction,
+        active = new Set<ParserFunction>(),
+    ) => {
+        if (active.has(parser)) {
+            return false;
+        }
+
+        const { kind, text, pattern, min = 0, children } = node(parser);
+        active.add(parser);
+        const check = (child?: ParserFunction) => nullable(child, active);
+        let result: boolean;
+
+        switch (kind) {
+            case 'literal':
+            case 'char':
+            case 'token':
+                result = text === '';
+                break;
+            case 'regex':
+                result = pattern !== undefined && matchesEmpty(pattern);
+                break;
+            case 'choice':
+                result = children.some(check);
+                break;
+            case 'sequence':
+            case 'left':
+            case 'right':
+            case 'middle':
+                result = children.every(check);
+                break;
+            case 'optional':
+            case 'optionalSkip':
+            case 'optionalWith':
+            case 'many':
+            case 'fold':
+            case 'foldRight':
+            case 'manyAtMost':
+            case 'until':
+            case 'peek':
+            case 'not':
+            case 'eof':
+                result = true;
+                break;
+            case 'manyAtLeast':
+            case 'manyBetween':
+            case 'exactly':
+            case 'sepBy':
+            case 'sepBy1':
+            case 'sepEndBy':
+                result = min === 0 || check(children[0]);
+                break;
+            case 'chain':
+            case 'gen':
+                result = false;
+                break;
+            default:
+                result = check(children[0]);
+        }
+
+        active.delete(parser);
+
+        return result;
+    };
+
+    for (let changed = true; changed;) {
+        changed = false;
+        for (const unit of units) {
+            if (!nullableUnits.has(unit) && derive(body(unit))) {
+                nullableUnits.add(unit);
+                changed = true;
+            }
+        }
+    }
+
+    /**
+     * the units the parser may enter before consuming any input
+     */
+    const leftmost = (
+        parser: ParserFunction | undefined,
+        active: Set<ParserFunction>,
+    ): ParserFunction[] => {
+        if (typeof parser !== 'function') {
+            return [];
+        }
+
+        return names.has(parser) ? [parser] : firsts(parser, active);
+    };
+
+    const firsts = (
+        parser: ParserFunction,
+        active = new Set<ParserFunction>(),
+    ) => {
+        if (active.has(parser)) {
+            return [];
+        }
+
+        const { kind, children } = node(parser);
+        active.add(parser);
+        const found: ParserFunction[] = [];
+
+        for (const child of children) {
+            found.push(...leftmost(child, active));
+            const alternative =
+                kind === 'choice' || kind === 'until' || kind === 'recover';
+            if (!alternative && !nullable(child)) {
+                break;
+            }
+        }
+
+        active.delete(parser);
+
+        return found;
+    };
+
+    const issues: LintIssue[] = [];
+    const literalOf = (
+        parser: ParserFunction | undefined,
+    ): string | undefined => {
+        if (typeof parser !== 'function') {
+            return undefined;
+        }
+
+        const { kind, text, children } = node(parser);
+        if (kind === 'literal' || kind === 'char' || kind === 'token') {
+            return text;
+        }
+
+        return wrappers.has(kind) ? literalOf(children[0]) : undefined;
+    };
+
+    for (const unit of units) {
+        const rule = names.get(unit) ?? '';
+
+        for (const part of parts(unit)) {
+            if (typeof part !== 'function') {
+                issues.push({
+                    type: 'undefined-rule',
+                    rule,
+                    message: `rule "${rule}" refers to an undefined parser`,
+                });
+                continue;
+            }
+
+            if (names.has(part) && part !== body(unit)) {
+                continue;
+            }
+
+            const { kind, children } = node(part);
+            const [item, separator] = children;
+            if (
+                repetitions.has(kind)
+                    ? nullable(item)
+                    : separators.has(kind) &&
+                      nullable(item) &&
+                      nullable(separator)
+            ) {
+                issues.push({
+                    type: 'nullable-repetition',
+                    rule,
+                    message: `${kind} in rule "${rule}" repeats a parser that can succeed without consuming input`,
+                });
+            }
+
+            if (kind === 'choice') {
+                const texts = children.map(literalOf);
+                texts.forEach((later, j) => {
+                    const earlier = texts
+                        .slice(0, j)
+                        .find(
+                            (prefix) =>
+                                prefix !== undefined &&
+                                later?.startsWith(prefix),
+                        );
+                    if (later !== undefined && earlier !== undefined) {
+                        issues.push({
+                            type: 'shadowed-alternative',
+                            rule,
+                            message: `alternative ${JSON.stringify(later)} in rule "${rule}" can never match, ${JSON.stringify(earlier)} matches first`,
+                        });
+                    }
+                });
+            }
+        }
+    }
+
+    const reported = new Set<ParserFunction>();
+    for (const unit of units) {
+        if (reported.has(unit)) {
+            continue;
+        }
+
+        // a path of rules leading back to the unit without consuming input
+        const seen = new Set<ParserFunction>();
+        const search = (from: ParserFunction): ParserFunction[] | null => {
+            for (const next of firsts(body(from))) {
+                if (next === unit) {
+                    return [next];
+                }
+
+                if (!seen.has(next)) {
+                    seen.add(next);
+                    const path = search(next);
+                    if (path) {
+                        return [next, ...path];
+                    }
+                }
+            }
+
+            return null;
+        };
+
+        const cycle = search(unit);
+        if (cycle) {
+            cycle.forEach((member) => reported.add(member));
+            const rule = names.get(unit) ?? '';
+            const path = [unit, ...cycle].map((member) => names.get(member));
+            issues.push({
+                type: 'left-recursion',
+                rule,
+                message: `rule "${rule}" is left recursive: ${path.join(' -> ')}`,
+            });
+        }
+    }
+
+    if (start !== undefined) {
+        const reachable = new Set([rules[start]]);
+        for (const unit of reachable) {
+            for (const part of parts(unit)) {
+                if (typeof part === 'function' && names.has(part)) {
+                    reachable.add(part);
+                }
+            }
+        }
+
+        for (const [rule, parser] of Object.entries(rules)) {
+            if (!reachable.has(parser)) {
+                issues.push({
+                    type: 'unused-rule',
+                    rule,
+                    message: `rule "${rule}" is not reachable from rule "${start}"`,
+                });
+            }
+        }
+    }
+
+    return issues;
+};
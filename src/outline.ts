@@ -0,0 +1,169 @@
+import { Expression, Inspection, ParserFunction } from './types';
+import { inspect } from './inspect';
+
+const join = (items: readonly Expression[]): Expression => {
+    const flat = items.flatMap((item) =>
+        item.type === 'sequence' ? item.items : [item],
+    );
+
+    return flat.length === 1 ? flat[0] : { type: 'sequence', items: flat };
+};
+
+/**
+ * a choice without options never matches, so it stands for a special fail
+ */
+const alternatives = (options: readonly Expression[]): Expression => {
+    const flat = options.flatMap((option) =>
+        option.type === 'choice' ? option.options : [option],
+    );
+
+    if (flat.length === 0) {
+        return { type: 'special', text: 'fail' };
+    }
+
+    return flat.length === 1 ? flat[0] : { type: 'choice', options: flat };
+};
+
+const optional = (item: Expression): Expression => ({ type: 'optional', item });
+
+/**
+ * min to max occurrences of item, spelled with optional and repeat only
+ */
+const repeat = (item: Expression, min = 0, max = Infinity): Expression => {
+    if (max === Infinity) {
+        const required = Array<Expression>(Math.max(min - 1, 0)).fill(item);
+
+        return join([
+            ...required,
+            { type: 'repeat', item, min: min > 0 ? 1 : 0 },
+        ]);
+    }
+
+    return join([
+        ...Array<Expression>(min).fill(item),
+        ...Array<Expression>(max - min).fill(optional(item)),
+    ]);
+};
+
+/**
+ * item (separator item)* with the counts and trailing mode of sepBy
+ */
+const separated = (node: Inspection, [item, separator]: Expression[]) => {
+    const { min = 0, max = Infinity, trailing = 'forbidden' } = node;
+    const items = [
+        item,
+        repeat(join([separator, item]), Math.max(min - 1, 0), max - 1),
+    ];
+    if (trailing === 'allowed') {
+        items.push(optional(separator));
+    } else if (trailing === 'required') {
+        items.push(separator);
+    }
+
+    return min === 0 ? optional(join(items)) : join(items);
+};
+
+const transparent = new Set([
+    'map',
+    'filter',
+    'refine',
+    'lexeme',
+    'located',
+    'commit',
+    'first',
+    'last',
+    'nth',
+    'recover',
+    'label',
+    'lazy',
+    'rule',
+    'notFollowedBy',
+]);
+
+const expand = (node: Inspection, children: () => Expression[]): Expression => {
+    switch (node.kind) {
+        case 'literal':
+        case 'char':
+        case 'token':
+            return { type: 'terminal', text: node.text ?? '' };
+        case 'regex':
+            return { type: 'pattern', pattern: node.pattern ?? /(?:)/ };
+        case 'sequence':
+        case 'left':
+        case 'right':
+        case 'middle':
+            return join(children());
+        case 'choice':
+            return alternatives(children());
+        case 'optional':
+        case 'optionalSkip':
+        case 'optionalWith':
+            return optional(children()[0]);
+        case 'many':
+        case 'fold':
+        case 'foldRight':
+        case 'until':
+            return repeat(children()[0]);
+        case 'many1':
+        case 'fold1':
+        case 'foldRight1':
+            return repeat(children()[0], 1);
+        case 'manyAtMost':
+        case 'manyAtLeast':
+        case 'manyBetween':
+        case 'exactly':
+            return repeat(children()[0], node.min, node.max);
+        case 'sepBy':
+        case 'sepBy1':
+        case 'sepEndBy':
+            return separated(node, children());
+        case 'peek':
+        case 'not':
+            return join([]);
+    }
+
+    if (transparent.has(node.kind) && node.children.length > 0) {
+        return children()[0];
+    }
+
+    return {
+        type: 'special',
+        text: node.name ?? node.displayName ?? node.kind,
+    };
+};
+
+/**
+ * the grammar expression a parser stands for, as far as its structure
+ * is known, named rules become references and anything else that cannot
+ * be spelled out, like gen or satisfy, is kept as a special by name
+ */
+export const outline = (
+    parser: ParserFunction,
+    active = new Set<ParserFunction>(),
+): Expression => {
+    const node = inspect(parser);
+    // only the outermost rule is expanded, the ones it reaches are referenced
+    if (node.kind === 'rule' && node.name !== undefined && active.size > 0) {
+        return { type: 'reference', name: node.name };
+    }
+
+    if (active.has(parser)) {
+        return { type: 'special', text: node.displayName ?? node.kind };
+    }
+
+    active.add(parser);
+    const expression = expand(node, () =>
+        node.children.map((child) => outline(child, active)),
+    );
+    active.delete(parser);
+
+    return expression;
+};
+
+/**
+ * one definition per rule of a grammar, in the order of its rules
+ */
+export const productions = (rules: Record<string, ParserFunction>) =>
+    Object.entries(rules).map(
+        ([name, parser]) => [name, outline(parser)] as const,
+    );
@@ -0,0 +1,189 @@
+import { assertType, describe, expect, it } from 'vitest';
+import { csv, json, jsonGrammar } from './parsers';
+import { grammar, run } from './core';
+import { choice, map } from './combinators';
+import { regex } from './terminals';
+import { Grammar, JsonRules, JsonValue, ParseError, Parser } from './types';
+
+describe('parsers', () => {
+    describe('json', () => {
+        it('should parse literals and numbers', () => {
+            expect(run(json, 'true')).toBe(true);
+            expect(run(json, 'false')).toBe(false);
+            expect(run(json, 'null')).toBeNull();
+            expect(run(json, '0')).toBe(0);
+            expect(run(json, '-12.5')).toBe(-12.5);
+            expect(run(json, '1e3')).toBe(1000);
+            expect(run(json, '2.5E-2')).toBe(0.025);
+            expect(run(json, '-0.1e+2')).toBe(-10);
+
+            assertType<Parser<JsonValue>>(json);
+        });
+
+        it('should parse nested arrays and objects', () => {
+            const text =
+                ' { "a" : [ 1 , { "b" : [ ] } , "c" ] ,\n\t"d":{}\r\n} ';
+
+            expect(run(json, text)).toEqual({
+                a: [1, { b: [] }, 'c'],
+                d: {},
+            });
+        });
+
+        it('should decode string escapes', () => {
+            expect(run(json, String.raw`"a\"b\\c\/d\b\f\n\r\t"`)).toBe(
+                'a"b\\c/d\b\f\n\r\t',
+            );
+            expect(run(json, String.raw`"\u00e9\u20AC"`)).toBe('é€');
+        });
+
+        it('should join surrogate pairs into one code point', () => {
+            const result = run(json, String.raw`"x\ud83d\ude00y"`);
+
+            expect(result).toBe('x😀y');
+            expect([...(result as string)]).toHaveLength(3);
+        });
+
+        it('should agree with JSON.parse', () => {
+            const text = JSON.stringify({
+                name: 'unitas',
+                list: [1, -2.5, 3e21, true, null, 'tab\there'],
+                nested: { empty: [], deep: [[[{ key: 'ü\u0001' }]]] },
+            });
+
+            expect(run(json, text)).toEqual(JSON.parse(text));
+        });
+
+        it('should keep __proto__ as an own key', () => {
+            const result = run(json, '{"__proto__": 1}');
+
+            expect(Object.keys(result as object)).toEqual(['__proto__']);
+            expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+        });
+
+        it.each([
+            ['leading zeros', '01'],
+            ['a trailing comma', '[1,]'],
+            ['single quotes', "'a'"],
+            ['a bare minus', '-'],
+            ['a missing fraction', '1.'],
+            ['an unescaped control character', '"a\tb"'],
+            ['an unknown escape', String.raw`"\x41"`],
+            ['a short unicode escape', String.raw`"\u12"`],
+            ['unquoted keys', '{a: 1}'],
+            ['a missing value', '{"a":}'],
+        ])('should reject %s', (_, text) => {
+            expect(run(json, text)).toBeNull();
+        });
+
+        it('should report the rules expected at the failure', () => {
+            const errors: ParseError[] = [];
+            const onError = (error: ParseError) => errors.push(error);
+            run(json, '[1, }', { onError });
+            run(json, '{"a" 1}', { onError });
+            run(json, '[}', { onError });
+
+            expect(errors).toEqual([
+                expect.objectContaining({ offset: 4, expected: ['value'] }),
+                expect.objectContaining({ offset: 5, expected: ['":"'] }),
+                expect.objectContaining({
+                    offset: 1,
+                    expected: ['"]"', 'value'],
+                }),
+            ]);
+        });
+
+        it('should be extendable by spreading the grammar', () => {
+            const definitions: Grammar<JsonRules> = {
+                ...jsonGrammar,
+                number: (parsers) =>
+                    choice(
+                        map(regex(/0x[0-9a-f]+/), Number),
+                        jsonGrammar.number(parsers),
+                    ),
+            };
+            const { text } = grammar(definitions);
+
+            expect(run(text, '[0x1f, 2]')).toEqual([31, 2]);
+            expect(run(json, '[0x1f, 2]')).toBeNull();
+        });
+    });
+
+    describe('csv', () => {
+        it('should parse rows of fields', () => {
+            const result = run(csv(), 'a,b,c\r\n1,,3\n');
+
+            expect(result).toEqual([
+                ['a', 'b', 'c'],
+                ['1', '', '3'],
+            ]);
+            assertType<string[][] | null>(result);
+        });
+
+        it('should make the last line break optional', () => {
+            expect(run(csv(), 'a,b\n1,2')).toEqual([
+                ['a', 'b'],
+                ['1', '2'],
+            ]);
+            expect(run(csv(), '')).toEqual([]);
+        });
+
+        it('should keep empty lines as rows with one empty field', () => {
+            expect(run(csv(), 'a\n\nb\n')).toEqual([['a'], [''], ['b']]);
+        });
+
+        it('should parse quoted fields', () => {
+            const text = '"a,b","line\r\nbreak","say ""hi""",""\n';
+
+            expect(run(csv(), text)).toEqual([
+                ['a,b', 'line\r\nbreak', 'say "hi"', ''],
+            ]);
+        });
+
+        it('should support other delimiters and quotes', () => {
+            expect(run(csv({ delimiter: '\t' }), 'a\tb,c\n1\t2')).toEqual([
+                ['a', 'b,c'],
+                ['1', '2'],
+            ]);
+            expect(
+                run(csv({ delimiter: ';', quote: "'" }), "'x;y';'it''s'"),
+            ).toEqual([['x;y', "it's"]]);
+            expect(run(csv({ delimiter: '^' }), 'a^]b')).toEqual([['a', ']b']]);
+        });
+
+        it('should key records by the header row', () => {
+            const result = run(
+                csv({ header: true }),
+                'name,age\nada,36\nbob\ncy,1,extra\n',
+            );
+
+            expect(result).toEqual([
+                { name: 'ada', age: '36' },
+                { name: 'bob', age: '' },
+                { name: 'cy', age: '1' },
+            ]);
+            assertType<Record<string, string>[] | null>(result);
+        });
+
+        it('should report unterminated quotes and stray characters', () => {
+            const errors: ParseError[] = [];
+            const onError = (error: ParseError) => errors.push(error);
+            run(csv(), 'a,"b\n', { onError });
+            run(csv(), '"a"b', { onError });
+
+            expect(errors).toEqual([
+                expect.objectContaining({ offset: 5, expected: ['"\\""'] }),
+                expect.objectContaining({
+                    offset: 3,
+                    expected: ['"\\r\\n"', '"\\n"', 'end of input'],
+                }),
+            ]);
+        });
+
+        it('should reject invalid dialects', () => {
+            expect(() => csv({ delimiter: '' })).toThrow();
+            expect(() => csv({ quote: '\n' })).toThrow();
+            expect(() => csv({ delimiter: '"' })).toThrow();
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import { CsvOptions, Grammar, JsonRules, JsonValue, Parser } from './types';
+import {
+    choice,
+    commit,
+    left,
+    many,
+    map,
+    right,
+    sequence,
+} from './combinators';
+import { literal, regex } from './terminals';
+import { eof } from './primitives';
+import { grammar } from './core';
+
+const whitespace = regex(/[ \t\n\r]*/);
+
+const symbol = (str: string) => left(literal(str), whitespace);
+
+/**
+ * items separated by commas between the open and close symbols
+ * an item is required after each comma
+ */
+const list = <T>(open: string, item: Parser<T>, close: string) =>
+    right(
+        symbol(open),
+        choice<T[]>(
+            map(literal(close), () => []),
+            map(
+                sequence(
+                    item,
+                    many(right(symbol(','), commit(item))),
+                    literal(close),
+                ),
+                ([head, tail]) => [head, ...tail],
+            ),
+        ),
+    );
+
+const escapes: Record<string, string> = {
+    '"': '"',
+    '\\': '\\',
+    '/': '/',
+    b: '\b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t',
+};
+
+const characters = choice(
+    regex(/[ !#-[\]-\uffff]+/),
+    map(regex(/\\["\\/bfnrt]/), (escape) => escapes[escape[1]]),
+    // consecutive escapes are decoded together to join surrogate pairs
+    map(regex(/(?:\\u[0-9a-fA-F]{4})+/), (escape) =>
+        String.fromCharCode(
+            ...escape
+                .split('\\u')
+                .slice(1)
+                .map((unit) => parseInt(unit, 16)),
+        ),
+    ),
+);
+
+/**
+ * rfc 8259 json, spread into a new grammar to extend or replace rules
+ * values consume the whitespace that follows them
+ */
+export const jsonGrammar: Grammar<JsonRules> = {
+    text: ({ value }) => right(whitespace, value),
+    value: ({ object, array, string, number, literal }) =>
+        left(
+            choice<JsonValue>(object, array, string, number, literal),
+            whitespace,
+        ),
+    object: ({ member }) =>
+        map(list('{', member, '}'), (members) => Object.fromEntries(members)),
+    member: ({ string, value }) =>
+        map(
+            sequence(
+                left(string, whitespace),
+                commit(right(symbol(':'), value)),
+            ),
+            ([key, result]): [string, JsonValue] => [key, result],
+        ),
+    array: ({ value }) => list('[', value, ']'),
+    string: () =>
+        map(
+            sequence(literal('"'), many(characters), literal('"')),
+            ([, chunks]) => chunks.join(''),
+        ),
+    number: () =>
+        map(regex(/-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/), Number),
+    literal: () =>
+        choice<boolean | null>(
+            map(literal('true'), () => true),
+            map(literal('false'), () => false),
+            map(literal('null'), () => null),
+        ),
+};
+
+export const json = grammar(jsonGrammar).text;
+
+const escapeClass = (str: string) => str.replace(/[\\\]^-]/g, '\\$&');
+
+/**
+ * rfc 4180 csv, rows end with crlf or lf and the last line break is optional
+ * with header the first row names the fields of the records that follow,
+ * missing fields are empty and extra fields are dropped
+ */
+export function csv(
+    options: CsvOptions & { header: true },
+): Parser<Record<string, string>[]>;
+export function csv(options?: CsvOptions): Parser<string[][]>;
+export function csv({
+    delimiter = ',',
+    quote = '"',
+    header = false,
+}: CsvOptions = {}): Parser<string[][] | Record<string, string>[]> {
+    for (const char of [delimiter, quote]) {
+        if (char.length !== 1 || char === '\r' || char === '\n') {
+            throw new Error(
+                'csv expects single character delimiter and quote, but got ' +
+                    JSON.stringify(char),
+            );
+        }
+    }
+
+    if (delimiter === quote) {
+        throw new Error('csv expects delimiter and quote to differ');
+    }
+
+    const quoted = map(
+        sequence(
+            literal(quote),
+            commit(
+                left(
+                    many(
+                        choice(
+                            regex(new RegExp(`[^${escapeClass(quote)}]+`)),
+                            map(literal(quote + quote), () => quote),
+                        ),
+                    ),
+                    literal(quote),
+                ),
+            ),
+        ),
+        ([, chunks]) => chunks.join(''),
+    );
+    const unquoted = regex(
+        new RegExp(`[^${escapeClass(delimiter + quote)}\\r\\n]*`),
+    );
+    const field = choice(quoted, unquoted);
+    const newline = choice(literal('\r\n'), literal('\n'));
+    const record = map(
+        sequence(field, many(right(literal(delimiter), field))),
+        ([head, tail]) => [head, ...tail],
+    );
+    // an empty record at the end consumes nothing and ends many
+    const rows = many(left(record, commit(choice(newline, eof))));
+
+    if (!header) {
+        return rows;
+    }
+
+    return map(rows, ([names = [], ...records]) =>
+        records.map((values) =>
+            Object.fromEntries(names.map((name, i) => [name, values[i] ?? ''])),
+        ),
+    );
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { fromPeg } from './peg';
+import { run } from './core';
+import { ebnf } from './ebnf';
+
+describe('fromPeg', () => {
+    it('should return a parser per rule', () => {
+        const { greeting, name } = fromPeg(`
+            greeting <- 'hello ' name
+            name     <- [a-z]+
+        `);
+
+        expect(run(greeting, 'hello world')).toEqual([
+            'hello ',
+            ['w', 'o', 'r', 'l', 'd'],
+        ]);
+        expect(run(name, 'abc')).toEqual(['a', 'b', 'c']);
+        expect(run(greeting, 'hello 42')).toBeNull();
+    });
+
+    it('should apply actions with the value and matched text', () => {
+        const { sum } = fromPeg(
+            `
+            sum    <- number ('+' number)*
+            number <- [0-9]+
+            `,
+            {
+                sum: (value) => {
+                    const [head, tail] = value as [number, [string, number][]];
+
+                    return tail.reduce((acc, [, n]) => acc + n, head);
+                },
+                number: (_, text) => Number(text),
+            },
+        );
+
+        expect(run(sum, '1+22+300')).toBe(323);
+    });
+
+    it('should not take inherited members for actions', () => {
+        const { start } = fromPeg(`
+            start       <- toString constructor
+            toString    <- 'a'
+            constructor <- 'b'
+        `);
+
+        expect(run(start, 'ab')).toEqual(['a', 'b']);
+    });
+
+    it('should support the peg operators', () => {
+        const { word, keyword, rest } = fromPeg(`
+            # keywords are not words
+            word    <- !keyword [a-z]+
+            keyword <- ("if" / "else") ![a-z]
+            rest    <- &'x' . .? "\\n"
+        `);
+
+        expect(run(word, 'iffy')).toEqual([null, ['i', 'f', 'f', 'y']]);
+        expect(run(word, 'if')).toBeNull();
+        expect(run(keyword, 'else')).toEqual(['else', null]);
+        expect(run(rest, 'xy\n', { strict: true })).toEqual([
+            null,
+            'x',
+            'y',
+            '\n',
+        ]);
+        expect(run(rest, 'yy\n')).toBeNull();
+    });
+
+    it('should accept ebnf style definitions and alternatives', () => {
+        const { bit } = fromPeg(`bit ::= "0" | "1"`);
+        const { digit } = fromPeg(`digit = [0-9]`);
+
+        expect(run(bit, '1')).toBe('1');
+        expect(run(digit, '7')).toBe('7');
+    });
+
+    it('should support left recursive rules', () => {
+        const { expr } = fromPeg(
+            `
+            expr <- expr '-' num / num
+            num  <- [0-9]
+            `,
+            {
+                expr: (value) =>
+                    Array.isArray(value)
+                        ? (value[0] as number) - (value[2] as number)
+                        : value,
+                num: (_, text) => Number(text),
+            },
+        );
+
+        expect(run(expr, '9-3-2')).toBe(4);
+    });
+
+    it('should build inspectable rules', () => {
+        const rules = fromPeg(`
+            list <- '[' item (',' item)* ']'
+            item <- [0-9]+ / list
+        `);
+
+        expect(ebnf(rules)).toBe(
+            [
+                `list ::= "[" item ("," item)* "]"`,
+                'item ::= [0-9]+ | list',
+            ].join('\n'),
+        );
+    });
+
+    it('should reject undefined rules', () => {
+        expect(() => fromPeg(`a <- 'x' b`)).toThrow(
+            'Undefined rule "b" in rule "a" at line 1, column 10',
+        );
+    });
+
+    it('should reject duplicate rules and actions for unknown rules', () => {
+        expect(() => fromPeg(`a <- 'x'\na <- 'y'`)).toThrow(
+            'Duplicate rule "a" at line 2, column 1',
+        );
+        expect(() => fromPeg(`a <- 'x'`, { b: String })).toThrow(
+            'Action for undefined rule "b"',
+        );
+    });
+
+    it('should report syntax errors in the grammar text', () => {
+        expect(() => fromPeg(`a <- ('x'`)).toThrow(
+            /^Invalid grammar: .* at line 1, column 10, expected "\)"/,
+        );
+        expect(() => fromPeg(`a <- 'x`)).toThrow(
+            `Invalid grammar: Unexpected end of input at line 1, column 8, expected "'"`,
+        );
+        expect(() => fromPeg(`a <- [z-a]`)).toThrow(
+            /column 7, expected valid character class$/,
+        );
+        expect(() => fromPeg('')).toThrow(/^Invalid grammar/);
+    });
+});
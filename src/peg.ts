@@ -0,0 +1,301 @@
+import {
+    Grammar,
+    GrammarOptions,
+    Located,
+    Parser,
+    ParserFunction,
+    PegActions,
+} from './types';
+import {
+    choice,
+    commit,
+    define,
+    filter,
+    invoke,
+    left,
+    located,
+    many,
+    many1,
+    map,
+    not,
+    notFollowedBy,
+    optional,
+    peek,
+    right,
+    sequence,
+} from './combinators';
+import { literal, regex } from './terminals';
+import { anyChar, eof } from './primitives';
+import { isFailure, step } from './results';
+import { grammar, run } from './core';
+
+type Node =
+    | { readonly type: 'literal'; readonly text: string }
+    | { readonly type: 'class'; readonly pattern: RegExp }
+    | { readonly type: 'any' }
+    | { readonly type: 'reference'; readonly name: Located<string> }
+    | { readonly type: 'sequence'; readonly items: readonly Node[] }
+    | { readonly type: 'choice'; readonly options: readonly Node[] }
+    | {
+          readonly type: '?' | '*' | '+' | '&' | '!';
+          readonly item: Node;
+      };
+
+type Definition = { readonly name: Located<string>; readonly body: Node };
+
+type Rules = {
+    definitions: Definition[];
+    expression: Node;
+    sequence: Node;
+    prefix: Node;
+    suffix: Node;
+    primary: Node;
+};
+
+const spacing = regex(/(?:\s|#[^\n]*)*/);
+
+const spaced = <T>(parser: ParserFunction<T>) => left(parser, spacing);
+
+const symbol = (str: string) => spaced(literal(str));
+
+const identifier = located(spaced(regex(/[A-Za-z_][A-Za-z0-9_]*/)));
+
+const arrow = spaced(regex(/<-|::=|=/));
+
+const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+const unescape = (str: string) =>
+    str.replace(/\\(u[0-9a-fA-F]{4}|[^])/g, (_, escape: string) =>
+        escape.length > 1
+            ? String.fromCharCode(parseInt(escape.slice(1), 16))
+            : (escapes[escape] ?? escape),
+    );
+
+/**
+ * text up to the closing delimiter, which has to follow once opened
+ */
+const delimited = (open: string, body: ParserFunction<string>, close: string) =>
+    right(literal(open), commit(spaced(left(body, literal(close)))));
+
+const quoted = map(
+    choice(
+        delimited("'", regex(/(?:[^'\\\n]|\\.)*/), "'"),
+        delimited('"', regex(/(?:[^"\\\n]|\\.)*/), '"'),
+    ),
+    (str): Node => ({ type: 'literal', text: unescape(str) }),
+);
+
+const valid = (body: string) => {
+    try {
+        new RegExp(`[${body}]`);
+
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// classes share their escapes with regex classes, so they are used as is
+const characterClass = map(
+    delimited(
+        '[',
+        filter(regex(/(?:[^\]\\\n]|\\.)*/), valid, 'valid character class'),
+        ']',
+    ),
+    (body): Node => ({ type: 'class', pattern: new RegExp(`[${body}]`) }),
+);
+
+const group = <T>(items: T[], type: 'sequence' | 'choice') =>
+    items.length === 1
+        ? items[0]
+        : type === 'sequence'
+          ? ({ type, items } as const)
+          : ({ type, options: items } as const);
+
+const syntax = grammar<Rules>({
+    definitions: ({ expression }) =>
+        right(
+            spacing,
+            left(
+                many1(
+                    map(
+                        sequence(identifier, commit(right(arrow, expression))),
+                        ([name, body]) => ({ name, body }),
+                    ),
+                ),
+                eof,
+            ),
+        ),
+    expression: ({ sequence: items }) =>
+        map(
+            sequence(items, many(right(spaced(regex(/[/|]/)), items))),
+            ([head, tail]) => group([head, ...tail], 'choice'),
+        ),
+    sequence: ({ prefix }) =>
+        map(many(prefix), (items) => group(items, 'sequence')),
+    prefix: ({ suffix }) =>
+        map(
+            sequence(optional(spaced(regex(/[&!]/))), suffix),
+            ([operator, item]): Node =>
+                operator === '&' || operator === '!'
+                    ? { type: operator, item }
+                    : item,
+        ),
+    suffix: ({ primary }) =>
+        map(
+            sequence(primary, optional(spaced(regex(/[?*+]/)))),
+            ([item, operator]): Node =>
+                operator === '?' || operator === '*' || operator === '+'
+                    ? { type: operator, item }
+                    : item,
+        ),
+    primary: ({ expression }) =>
+        choice<Node>(
+            map(notFollowedBy(identifier, arrow), (name) => ({
+                type: 'reference',
+                name,
+            })),
+            right(symbol('('), left(expression, commit(symbol(')')))),
+            quoted,
+            characterClass,
+            map(symbol('.'), () => ({ type: 'any' })),
+        ),
+});
+
+const references = (node: Node): Located<string>[] => {
+    switch (node.type) {
+        case 'reference':
+            return [node.name];
+        case 'sequence':
+            return node.items.flatMap(references);
+        case 'choice':
+            return node.options.flatMap(references);
+        case 'literal':
+        case 'class':
+        case 'any':
+            return [];
+        default:
+            return references(node.item);
+    }
+};
+
+const compile = (
+    node: Node,
+    parsers: Record<string, Parser<unknown>>,
+): ParserFunction<unknown> => {
+    switch (node.type) {
+        case 'literal':
+            return literal(node.text);
+        case 'class':
+            return regex(node.pattern);
+        case 'any':
+            return anyChar;
+        case 'reference':
+            return parsers[node.name.value];
+        case 'sequence':
+            return sequence(
+                ...node.items.map((item) => compile(item, parsers)),
+            );
+        case 'choice':
+            return choice(
+                ...node.options.map((option) => compile(option, parsers)),
+            );
+        case '?':
+            return optional(compile(node.item, parsers));
+        case '*':
+            return many(compile(node.item, parsers));
+        case '+':
+            return many1(compile(node.item, parsers));
+        case '&':
+            return map(peek(compile(node.item, parsers)), () => null);
+        case '!':
+            return not(compile(node.item, parsers));
+    }
+};
+
+/**
+ * applies the action of a rule to its value and the text it matched
+ */
+const act = (
+    parser: ParserFunction<unknown>,
+    action: PegActions[string] | undefined,
+) =>
+    action === undefined
+        ? parser
+        : define<unknown>(
+              (cursor) => {
+                  const result = invoke(parser, cursor);
+                  if (isFailure(result)) {
+                      return result;
+                  }
+
+                  const [value, rest] = result;
+                  const text = cursor.source.slice(cursor.offset, rest.offset);
+
+                  return step(action(value, text), rest);
+              },
+              'map',
+              { kind: 'map', children: [parser] },
+          );
+
+const at = ({ start }: Located<unknown>) =>
+    `at line ${start.line}, column ${start.column}`;
+
+/**
+ * builds a grammar from peg text, returning its rules like grammar does
+ * rules are defined with <-, = or ::=, alternatives are separated by / or |,
+ * and # starts a comment, whitespace is only skipped between tokens of the
+ * grammar text, so rules that allow whitespace have to spell it out
+ * without an action a rule parses to the value of its expression: literals,
+ * classes and . to strings, sequences of several items to arrays, ? to the
+ * value or null, * and + to arrays, and & and ! to null
+ * throws on invalid grammar text and on undefined or duplicate rules
+ */
+export const fromPeg = (
+    source: string,
+    actions: PegActions = {},
+    options: GrammarOptions = {},
+): Record<string, Parser<unknown>> => {
+    const parsed = run(syntax.definitions, source, {
+        result: true,
+        strict: true,
+    });
+    if (!parsed.ok) {
+        throw new Error(`Invalid grammar: ${parsed.error.message}`);
+    }
+
+    const rules = new Map<string, Definition>();
+    for (const definition of parsed.value) {
+        const { name } = definition;
+        if (rules.has(name.value)) {
+            throw new Error(`Duplicate rule "${name.value}" ${at(name)}`);
+        }
+
+        rules.set(name.value, definition);
+    }
+
+    for (const { name, body } of rules.values()) {
+        for (const reference of references(body)) {
+            if (!rules.has(reference.value)) {
+                throw new Error(
+                    `Undefined rule "${reference.value}" in rule "${name.value}" ${at(reference)}`,
+                );
+            }
+        }
+    }
+
+    for (const name of Object.keys(actions)) {
+        if (!rules.has(name)) {
+            throw new Error(`Action for undefined rule "${name}"`);
+        }
+    }
+
+    // rules named like object members must not pick up inherited ones
+    const definitions: Grammar<Record<string, unknown>> = Object.create(null);
+    for (const [name, { body }] of rules) {
+        const action = Object.hasOwn(actions, name) ? actions[name] : undefined;
+        definitions[name] = (parsers) => act(compile(body, parsers), action);
+    }
+
+    return grammar(definitions, options);
+};
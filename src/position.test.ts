@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { locate, shift } from './position';
+import { begin } from './cursor';
+
+describe('position', () => {
+    describe('locate', () => {
+        it('should resolve offsets on the first line', () => {
+            expect(locate('hello', 0)).toEqual({
+                offset: 0,
+                line: 1,
+                column: 1,
+            });
+            expect(locate('hello', 4)).toEqual({
+                offset: 4,
+                line: 1,
+                column: 5,
+            });
+        });
+
+        it('should count lines and reset columns after newlines', () => {
+            expect(locate('ab\ncd\nef', 7)).toEqual({
+                offset: 7,
+                line: 3,
+                column: 2,
+            });
+        });
+
+        it('should keep line starts on the context of the source', () => {
+            const { context } = begin('ab\ncd');
+
+            expect(locate('ab\ncd', 4, context).line).toBe(2);
+            expect(context.lineStarts).toEqual([0, 3]);
+            expect(locate('x\ny\nz', 4, context).line).toBe(3);
+            expect(context.lineStarts).toEqual([0, 3]);
+        });
+
+        it('should resolve the end of input', () => {
+            expect(locate('ab\n', 3)).toEqual({
+                offset: 3,
+                line: 2,
+                column: 1,
+            });
+        });
+    });
+
+    describe('shift', () => {
+        const origin = { offset: 10, line: 3, column: 5 };
+
+        it('should continue the origin line on the first line', () => {
+            expect(shift(locate('ab\ncd', 1), origin)).toEqual({
+                offset: 11,
+                line: 3,
+                column: 6,
+            });
+        });
+
+        it('should keep columns on later lines', () => {
+            expect(shift(locate('ab\ncd', 4), origin)).toEqual({
+                offset: 14,
+                line: 4,
+                column: 2,
+            });
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import { Context, Position } from './types';
+
+const lineStartsOf = (source: string) => {
+    const lineStarts = [0];
+    let index = source.indexOf('\n');
+    while (index !== -1) {
+        lineStarts.push(index + 1);
+        index = source.indexOf('\n', index + 1);
+    }
+
+    return lineStarts;
+};
+
+/**
+ * resolves an offset into a 1-based line and column
+ * line starts are kept on the context of a parse of the source, so repeated
+ * lookups during the parse stay cheap
+ */
+export const locate = (
+    source: string,
+    offset: number,
+    context?: Context,
+): Position => {
+    const lineStarts =
+        context?.source === source
+            ? (context.lineStarts ??= lineStartsOf(source))
+            : lineStartsOf(source);
+
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return { offset, line: low + 1, column: offset - lineStarts[low] + 1 };
+};
+
+/**
+ * moves a position found in a slice to where the slice starts in its source
+ */
+export const shift = (position: Position, origin: Position): Position => ({
+    offset: origin.offset + position.offset,
+    line: origin.line + position.line - 1,
+    column:
+        position.line === 1
+            ? origin.column + position.column - 1
+            : position.column,
+});
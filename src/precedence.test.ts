@@ -0,0 +1,94 @@
+import { assertType, describe, expect, it } from 'vitest';
+import { precedence } from './precedence';
+import { choice, lazy, map, middle, token } from './combinators';
+import { regex } from './terminals';
+import { failure } from './results';
+import { run } from './core';
+import { Parser, Result } from './types';
+
+describe('precedence', () => {
+    const number = map(regex(/\d+/), Number);
+
+    const calculator: Parser<number> = precedence<number>(
+        choice(
+            number,
+            middle(
+                token('('),
+                lazy(() => calculator),
+                token(')'),
+            ),
+        ),
+        [
+            {
+                infix: { '==': (a, b) => Number(a === b) },
+                associativity: 'none',
+            },
+            { infix: { '+': (a, b) => a + b, '-': (a, b) => a - b } },
+            { infix: { '*': (a, b) => a * b, '/': (a, b) => a / b } },
+            { prefix: { '-': (a) => -a } },
+            { postfix: { '!': (a) => (a <= 1 ? 1 : a * (a - 1)) } },
+            { infix: { '^': (a, b) => a ** b }, associativity: 'right' },
+        ],
+    );
+
+    const tree: Parser<string> = precedence<string>(regex(/[a-z]/), [
+        { infix: { '=': (a, b) => `(${a} = ${b})` }, associativity: 'right' },
+        { infix: { '+': (a, b) => `(${a} + ${b})` } },
+        { infix: { '<': (a, b) => `(${a} < ${b})` }, associativity: 'none' },
+        { prefix: { '!': (a) => `!${a}` }, postfix: { '?': (a) => `${a}?` } },
+    ]);
+
+    it('should parse a single atom', () => {
+        const result = calculator('42');
+        expect(result).toEqual([42, '']);
+
+        assertType<Result<number>>(result);
+    });
+
+    it('should respect the binding power of levels', () => {
+        expect(run(calculator, '1 + 2 * 3')).toBe(7);
+        expect(run(calculator, '2 * 3 + 1')).toBe(7);
+        expect(run(calculator, '(1 + 2) * 3')).toBe(9);
+    });
+
+    it('should associate infix operators to the left by default', () => {
+        expect(run(calculator, '10 - 3 - 2')).toBe(5);
+        expect(run(calculator, '8 / 2 / 2')).toBe(2);
+        expect(run(tree, 'a + b + c')).toBe('((a + b) + c)');
+    });
+
+    it('should associate right associative operators to the right', () => {
+        expect(run(calculator, '2 ^ 3 ^ 2')).toBe(512);
+        expect(run(tree, 'a = b = c')).toBe('(a = (b = c))');
+    });
+
+    it('should not chain non associative operators', () => {
+        expect(run(tree, 'a < b')).toBe('(a < b)');
+        expect(tree('a < b < c')).toEqual(['(a < b)', '< c']);
+        expect(run(calculator, '1 + 1 == 2')).toBe(1);
+        expect(run(calculator, '1 == 1 == 1')).toBeNull();
+    });
+
+    it('should apply prefix and postfix operators', () => {
+        expect(run(calculator, '-2 * 3')).toBe(-6);
+        expect(run(calculator, '-2 ^ 2')).toBe(-4);
+        expect(run(calculator, '3! + 1')).toBe(7);
+        expect(run(calculator, '--3')).toBe(3);
+        expect(run(tree, '!a? + b')).toBe('(!a? + b)');
+    });
+
+    it('should read the longest operator before its binding power', () => {
+        const logic = precedence<string>(regex(/[a-z]/), [
+            { infix: { '&&': (a, b) => `(${a} && ${b})` } },
+            { infix: { '&': (a, b) => `(${a} & ${b})` } },
+        ]);
+
+        expect(run(logic, 'a && b && c')).toBe('((a && b) && c)');
+        expect(run(logic, 'a & b && c & d')).toBe('((a & b) && (c & d))');
+    });
+
+    it('should fail when an operand is missing', () => {
+        expect(calculator('1 + ')).toEqual(failure(4, '/\\d+/', '"("', '"-"'));
+        expect(calculator('*')).toEqual(failure(0, '/\\d+/', '"("', '"-"'));
+    });
+});
@@ -0,0 +1,141 @@
+import { Cursor, OperatorLevel, Parser, ParserFunction, Reply } from './types';
+import { define, invoke, lexeme, token } from './combinators';
+import { failure, isFailure, merge, step } from './results';
+
+type Operator<F> = {
+    readonly symbol: string;
+    readonly parser: Parser<string>;
+    readonly power: number;
+    readonly apply: F;
+};
+
+type Infix<T> = Operator<(left: T, right: T) => T> & {
+    readonly rightPower: number;
+    readonly chains: boolean;
+};
+
+const operatorsOf = <F>(
+    levels: readonly OperatorLevel<unknown>[],
+    kind: 'prefix' | 'postfix' | 'infix',
+) =>
+    levels
+        .flatMap((level, i) =>
+            Object.entries(level[kind] ?? {}).map(([symbol, apply]) => ({
+                symbol,
+                parser: token(symbol),
+                power: (i + 1) * 2,
+                apply: apply as F,
+                level,
+            })),
+        )
+        // longer symbols first, so '==' is not read as '='
+        .sort((a, b) => b.symbol.length - a.symbol.length);
+
+const match = <O extends Operator<unknown>>(
+    operators: readonly O[],
+    cursor: Cursor,
+    minPower = 0,
+) => {
+    // the longest symbol wins before binding power is considered, so a loose
+    // '&&' is not read as a tighter '&'
+    for (const operator of operators) {
+        const result = invoke(operator.parser, cursor);
+        if (!isFailure(result)) {
+            return operator.power < minPower
+                ? null
+                : { operator, rest: result[1] };
+        }
+    }
+
+    return null;
+};
+
+/**
+ * builds an expression parser from an atom and operator levels
+ * levels are ordered from the loosest to the tightest binding
+ * infix operators are left associative unless the level says otherwise,
+ * non associative operators do not chain, so 'a == b == c' stops after 'a == b'
+ */
+export const precedence = <T>(
+    atom: ParserFunction<T>,
+    levels: readonly OperatorLevel<T>[],
+): Parser<T> => {
+    const operand = lexeme(atom);
+    const erased = levels as readonly OperatorLevel<unknown>[];
+
+    const prefixes = operatorsOf<(operand: T) => T>(erased, 'prefix');
+    const postfixes = operatorsOf<(operand: T) => T>(erased, 'postfix');
+    const infixes: Infix<T>[] = operatorsOf<(left: T, right: T) => T>(
+        erased,
+        'infix',
+    ).map((operator) => {
+        const associativity = operator.level.associativity ?? 'left';
+
+        return {
+            ...operator,
+            rightPower:
+                associativity === 'right' ? operator.power : operator.power + 1,
+            chains: associativity !== 'none',
+        };
+    });
+
+    const parse = (cursor: Cursor, minPower: number): Reply<T> => {
+        let left: T;
+        let current: Cursor;
+
+        const prefix = match(prefixes, cursor);
+        if (prefix) {
+            const result = parse(prefix.rest, prefix.operator.power);
+            if (isFailure(result)) {
+                return result;
+            }
+
+            left = prefix.operator.apply(result[0]);
+            current = result[1];
+        } else {
+            const result = invoke(operand, cursor);
+            if (isFailure(result)) {
+                return merge(
+                    result,
+                    failure(
+                        cursor.offset,
+                        ...prefixes.map(({ symbol }) => JSON.stringify(symbol)),
+                    ),
+                );
+            }
+
+            [left, current] = result;
+        }
+
+        let blocked = -1;
+        while (true) {
+            const postfix = match(postfixes, current, minPower);
+            if (postfix) {
+                left = postfix.operator.apply(left);
+                current = postfix.rest;
+                continue;
+            }
+
+            const infix = match(infixes, current, minPower);
+            if (!infix || infix.operator.power === blocked) {
+                break;
+            }
+
+            const right = parse(infix.rest, infix.operator.rightPower);
+            if (isFailure(right)) {
+                return right;
+            }
+
+            left = infix.operator.apply(left, right[0]);
+            current = right[1];
+            blocked = infix.operator.chains ? -1 : infix.operator.power;
+        }
+
+        return step(left, current);
+    };
+
+    return define<T>((cursor) => parse(cursor, 0), 'precedence', {
+        kind: 'precedence',
+        children: [atom],
+    });
+};
@@ -1,5 +1,6 @@
 import { assertType, describe, expect, it } from 'vitest';
-import { digit, digits, letter, satisfy } from './primitives';
+import { anyChar, digit, digits, eof, letter, satisfy } from './primitives';
+import { failure } from './results';
 import { Result } from './types';
 
 describe('primitives', () => {
@@ -15,7 +16,7 @@ describe('primitives', () => {
         it('should fail when character does not satisfy predicate', () => {
             const parser = satisfy((c) => c >= '0' && c <= '9');
             const result = parser('abc');
-            expect(result).toBeNull();
+            expect(result).toEqual(failure(0, 'character'));
 
             assertType<Result<string>>(result);
         });
@@ -23,7 +24,7 @@ describe('primitives', () => {
         it('should fail on empty input', () => {
             const parser = satisfy(() => true);
             const result = parser('');
-            expect(result).toBeNull();
+            expect(result).toEqual(failure(0, 'character'));
 
             assertType<Result<string>>(result);
         });
@@ -37,9 +38,9 @@ describe('primitives', () => {
         });
 
         it('should fail on non-digit characters', () => {
-            expect(digit('abc')).toBeNull();
-            expect(digit('!')).toBeNull();
-            expect(digit('')).toBeNull();
+            expect(digit('abc')).toEqual(failure(0, 'digit'));
+            expect(digit('!')).toEqual(failure(0, 'digit'));
+            expect(digit('')).toEqual(failure(0, 'digit'));
         });
 
         it('should only parse first digit', () => {
@@ -55,8 +56,8 @@ describe('primitives', () => {
         });
 
         it('should fail when no digits found', () => {
-            expect(digits('abc')).toBeNull();
-            expect(digits('')).toBeNull();
+            expect(digits('abc')).toEqual(failure(0, 'digit'));
+            expect(digits('')).toEqual(failure(0, 'digit'));
         });
 
         it('should handle single digit', () => {
@@ -85,7 +86,7 @@ describe('primitives', () => {
 
         it('should fail on non-letter characters', () => {
             const result = letter('123' as never);
-            expect(result).toBeNull();
+            expect(result).toEqual(failure(0, 'letter'));
 
             assertType<Result<unknown>>(result);
         });
@@ -101,4 +102,25 @@ describe('primitives', () => {
             assertType<Result<'A'>>(result);
         });
     });
+
+    describe('anyChar', () => {
+        it('should parse any single character', () => {
+            expect(anyChar('\nx')).toEqual(['\n', 'x']);
+            expect(anyChar('é')).toEqual(['é', '']);
+        });
+
+        it('should fail at the end of input', () => {
+            expect(anyChar('')).toEqual(failure(0, 'any character'));
+        });
+    });
+
+    describe('eof', () => {
+        it('should succeed at the end of input', () => {
+            expect(eof('')).toEqual([null, '']);
+        });
+
+        it('should fail before the end of input', () => {
+            expect(eof(' ')).toEqual(failure(0, 'end of input'));
+        });
+    });
 });
@@ -1,36 +1,62 @@
-import { failure, success } from './results';
-import { create, many1, map } from './combinators';
-import { Letter } from './types';
+import { failure, isFailure, step } from './results';
+import { create, define, invoke, many1, map } from './combinators';
+import { advance, reach } from './cursor';
+import { Letter, Result } from './types';
 
 export const satisfy = <T extends string>(
     predicate: (char: string) => boolean,
+    expected = 'character',
 ) => {
-    return create<T>((input) =>
-        input.length > 0 && predicate(input[0])
-            ? success(input[0] as T, input.slice(1))
-            : failure(),
+    return define<T>(
+        (cursor) => {
+            const char = cursor.source[cursor.offset];
+            reach(cursor, cursor.offset + 1);
+
+            return char !== undefined && predicate(char)
+                ? step(char as T, advance(cursor, 1))
+                : failure(cursor.offset, expected);
+        },
+        `satisfy(${expected})`,
+        { kind: 'satisfy' },
     );
 };
 
+export const anyChar = create<string>(
+    satisfy(() => true, 'any character'),
+    'anyChar',
+);
+
+export const eof = define<null>((cursor) => {
+    reach(cursor, cursor.offset + 1);
+
+    return cursor.offset === cursor.source.length
+        ? step(null, cursor)
+        : failure(cursor.offset, 'end of input');
+}, 'eof');
+
 export const digit = create<number>(
     map(
-        satisfy((c) => /[0-9]/.test(c)),
+        satisfy((c) => /[0-9]/.test(c), 'digit'),
         (c) => parseInt(c, 10),
     ),
+    'digit',
 );
 
-export const digits = create<number>((input) => {
-    const result = many1(digit)(input);
-    if (!result) {
-        return failure();
+export const digits = define<number>((cursor) => {
+    const result = invoke(many1(digit), cursor);
+    if (isFailure(result)) {
+        return result;
     }
 
     const [ds, rest] = result;
     const value = ds.reduce((acc, d) => acc * 10 + d, 0);
 
-    return success(value, rest);
-});
+    return step(value, rest);
+}, 'digits');
 
-export const letter = <T extends Letter>(input: T) => {
-    return create<T>(satisfy<T>((c) => /[a-zA-Z]/.test(c)))(input);
-};
+const letters = satisfy<Letter>((c) => /[a-zA-Z]/.test(c), 'letter');
+
+export const letter = Object.assign(
+    <T extends Letter>(input: T) => letters(input) as Result<T>,
+    { parse: letters.parse, [Symbol.iterator]: letters[Symbol.iterator] },
+);
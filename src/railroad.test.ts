@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { railroad, railroadHtml } from './railroad';
+import { choice, many, optional, sequence } from './combinators';
+import { char, literal, regex } from './terminals';
+import { grammar } from './core';
+
+type Rules = { list: unknown; item: unknown };
+
+const rules = grammar<Rules>({
+    list: ({ item }) => sequence(char('['), many(item), char(']')),
+    item: ({ list }) => choice<unknown>(regex(/\d/), optional(list)),
+});
+
+const dimensions = (svg: string) =>
+    svg
+        .match(/^<svg [^>]*width="(\d+)" height="(\d+)"/)
+        ?.slice(1)
+        .map(Number);
+
+describe('railroad', () => {
+    it('should draw one svg per rule', () => {
+        const diagrams = railroad(rules);
+
+        expect(Object.keys(diagrams)).toEqual(['list', 'item']);
+        expect(diagrams.list).toMatch(
+            /^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/,
+        );
+        expect(diagrams.list).toMatch(/<\/svg>$/);
+    });
+
+    it('should label terminals, patterns and references', () => {
+        const { list, item } = railroad(rules);
+
+        expect(list).toContain('<g class="terminal">');
+        expect(list).toContain('>&quot;[&quot;</text>');
+        expect(list).toContain('<a href="#item"><g class="reference">');
+        expect(item).toContain('<g class="pattern">');
+        expect(item).toContain('>/\\d/</text>');
+    });
+
+    it('should grow with the structure of the rule', () => {
+        const { one, two, loop } = railroad(
+            grammar({
+                one: () => literal('a'),
+                two: () => choice(literal('a'), literal('b')),
+                loop: () => many(literal('a')),
+            }),
+        );
+        const [width, height] = dimensions(one) ?? [];
+
+        expect(dimensions(two)?.[0]).toBeGreaterThan(width);
+        expect(dimensions(two)?.[1]).toBeGreaterThan(height);
+        expect(dimensions(loop)?.[1]).toBeGreaterThan(height);
+    });
+
+    it('should draw an empty choice as a special node', () => {
+        const { never } = railroad(grammar({ never: () => choice() }));
+
+        expect(never).toContain('<g class="special">');
+        expect(never).toContain('>fail</text>');
+    });
+
+    it('should escape markup in labels', () => {
+        const { tag } = railroad(grammar({ tag: () => literal('<a & b>') }));
+
+        expect(tag).toContain('&quot;&lt;a &amp; b&gt;&quot;');
+        expect(tag).not.toContain('<a &');
+    });
+
+    it('should render a page with a section per rule', () => {
+        const html = railroadHtml(rules, 'Lists');
+
+        expect(html).toMatch(/^<!DOCTYPE html>/);
+        expect(html).toContain('<title>Lists</title>');
+        expect(html).toContain('<section id="list"><h2>list</h2><svg');
+        expect(html).toContain(
+            '<pre>list ::= &quot;[&quot; item* &quot;]&quot;</pre>',
+        );
+        expect(html).toContain('<section id="item">');
+    });
+});
@@ -0,0 +1,260 @@
+import { Expression, ParserFunction } from './types';
+import { productions } from './outline';
+import { ebnf } from './ebnf';
+
+/**
+ * a laid out diagram part, drawn with its entry at x, y and its exit at
+ * x + width, y, reaching up and down from that line
+ */
+type Box = {
+    width: number;
+    up: number;
+    down: number;
+    draw: (x: number, y: number) => string;
+};
+
+const radius = 10;
+const gap = 10;
+const padding = 20;
+const charWidth = 8;
+
+const style =
+    'path{fill:none;stroke:#333;stroke-width:2}' +
+    'rect{fill:#ffd;stroke:#333;stroke-width:2}' +
+    '.reference rect{fill:#def}.special rect{fill:#eee;stroke-dasharray:4}' +
+    'text{font:13px monospace;text-anchor:middle}';
+
+const entities: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+};
+
+const escape = (text: string) =>
+    text.replace(/[&<>"]/g, (char) => entities[char]);
+
+const path = (d: string) => `<path d="${d}"/>`;
+
+const arc = (dx: number, dy: number, clockwise: boolean) =>
+    `a${radius} ${radius} 0 0 ${clockwise ? 1 : 0} ${dx} ${dy}`;
+
+/**
+ * a labelled box, rounded for terminals and linked for references
+ */
+const node = (text: string, kind: string, href?: string): Box => {
+    const width = text.length * charWidth + 2 * radius;
+    const rounded = kind === 'terminal' || kind === 'pattern';
+
+    return {
+        width,
+        up: 11,
+        down: 11,
+        draw: (x, y) => {
+            const shape =
+                `<g class="${kind}">` +
+                `<rect x="${x}" y="${y - 11}" width="${width}" height="22" rx="${rounded ? radius : 0}"/>` +
+                `<text x="${x + width / 2}" y="${y + 4}">${escape(text)}</text>` +
+                '</g>';
+
+            return href === undefined
+                ? shape
+                : `<a href="#${escape(href)}">${shape}</a>`;
+        },
+    };
+};
+
+const sequence = (boxes: Box[]): Box => ({
+    width: boxes.reduce(
+        (sum, box, i) => sum + box.width + (i > 0 ? gap : 0),
+        0,
+    ),
+    up: Math.max(0, ...boxes.map((box) => box.up)),
+    down: Math.max(0, ...boxes.map((box) => box.down)),
+    draw: (x, y) => {
+        let at = x;
+
+        return boxes
+            .map((box, i) => {
+                const link = i > 0 ? path(`M${at} ${y}h${gap}`) : '';
+                at += i > 0 ? gap : 0;
+                const drawn = box.draw(at, y);
+                at += box.width;
+
+                return link + drawn;
+            })
+            .join('');
+    },
+});
+
+/**
+ * options stacked below the first one, which stays on the line
+ */
+const choice = ([first, ...rest]: Box[]): Box => {
+    const inner = Math.max(first.width, ...rest.map((box) => box.width));
+    const drops: number[] = [];
+    let drop = 0;
+    let above = first;
+
+    for (const box of rest) {
+        drop += Math.max(above.down + gap + box.up, 2 * radius);
+        drops.push(drop);
+        above = box;
+    }
+
+    const width = inner + 4 * radius;
+
+    return {
+        width,
+        up: first.up,
+        down: drop + above.down,
+        draw: (x, y) =>
+            path(`M${x} ${y}h${2 * radius}`) +
+            first.draw(x + 2 * radius, y) +
+            path(`M${x + 2 * radius + first.width} ${y}H${x + width}`) +
+            rest
+                .map((box, i) => {
+                    const level = y + drops[i];
+
+                    return (
+                        path(
+                            `M${x} ${y}${arc(radius, radius, true)}` +
+                                `V${level - radius}${arc(radius, radius, false)}`,
+                        ) +
+                        box.draw(x + 2 * radius, level) +
+                        path(
+                            `M${x + 2 * radius + box.width} ${level}` +
+                                `H${x + width - 2 * radius}` +
+                                `${arc(radius, -radius, false)}` +
+                                `V${y + radius}${arc(radius, -radius, true)}`,
+                        )
+                    );
+                })
+                .join(''),
+    };
+};
+
+/**
+ * the item on the line with a bypass above it
+ */
+const optional = (item: Box): Box => {
+    const lift = Math.max(item.up + gap, 2 * radius);
+    const width = item.width + 4 * radius;
+
+    return {
+        width,
+        up: lift,
+        down: item.down,
+        draw: (x, y) =>
+            path(`M${x} ${y}h${2 * radius}`) +
+            item.draw(x + 2 * radius, y) +
+            path(`M${x + 2 * radius + item.width} ${y}h${2 * radius}`) +
+            path(
+                `M${x} ${y}${arc(radius, -radius, false)}` +
+                    `V${y - lift + radius}${arc(radius, -radius, true)}` +
+                    `H${x + width - 2 * radius}${arc(radius, radius, true)}` +
+                    `V${y - radius}${arc(radius, radius, false)}`,
+            ),
+    };
+};
+
+/**
+ * the item on the line with a loop back below it
+ */
+const repeat = (item: Box): Box => {
+    const drop = Math.max(item.down + gap, 2 * radius);
+
+    return {
+        width: item.width + 2 * radius,
+        up: item.up,
+        down: drop,
+        draw: (x, y) =>
+            path(`M${x} ${y}h${radius}`) +
+            item.draw(x + radius, y) +
+            path(`M${x + radius + item.width} ${y}h${radius}`) +
+            path(
+                `M${x + radius + item.width} ${y}${arc(radius, radius, true)}` +
+                    `V${y + drop - radius}${arc(-radius, radius, true)}` +
+                    `H${x + radius}${arc(-radius, -radius, true)}` +
+                    `V${y + radius}${arc(radius, -radius, true)}`,
+            ),
+    };
+};
+
+const layout = (expression: Expression): Box => {
+    switch (expression.type) {
+        case 'terminal':
+            return node(JSON.stringify(expression.text), 'terminal');
+        case 'pattern':
+            return node(String(expression.pattern), 'pattern');
+        case 'reference':
+            return node(expression.name, 'reference', expression.name);
+        case 'special':
+            return node(expression.text, 'special');
+        case 'sequence':
+            return sequence(expression.items.map(layout));
+        case 'choice':
+            return choice(expression.options.map(layout));
+        case 'optional':
+            return optional(layout(expression.item));
+        case 'repeat': {
+            const loop = repeat(layout(expression.item));
+
+            return expression.min === 0 ? optional(loop) : loop;
+        }
+    }
+};
+
+/**
+ * a standalone svg railroad diagram of one expression
+ */
+const diagram = (expression: Expression) => {
+    const box = layout(expression);
+    const width = box.width + 2 * (padding + gap);
+    const height = box.up + box.down + 2 * padding;
+    const y = padding + box.up;
+    const end = padding + gap + box.width;
+
+    return (
+        `<svg xmlns="http://www.w3.org/2000/svg" class="railroad" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<style>${style}</style>` +
+        path(`M${padding} ${y - 10}v20M${padding} ${y}h${gap}`) +
+        box.draw(padding + gap, y) +
+        path(`M${end} ${y}h${gap}M${end + gap} ${y - 10}v20`) +
+        '</svg>'
+    );
+};
+
+/**
+ * an svg railroad diagram per rule of a grammar
+ * references to other rules link to #name, see railroadHtml
+ */
+export const railroad = (rules: Record<string, ParserFunction>) =>
+    Object.fromEntries(
+        productions(rules).map(([name, expression]) => [
+            name,
+            diagram(expression),
+        ]),
+    );
+
+/**
+ * an html page with the diagram and ebnf production of every rule
+ */
+export const railroadHtml = (
+    rules: Record<string, ParserFunction>,
+    title = 'Grammar',
+) => {
+    const sections = Object.entries(railroad(rules)).map(
+        ([name, svg]) =>
+            `<section id="${escape(name)}">` +
+            `<h2>${escape(name)}</h2>${svg}` +
+            `<pre>${escape(ebnf({ [name]: rules[name] }))}</pre>` +
+            '</section>',
+    );
+
+    return (
+        '<!DOCTYPE html>\n' +
+        `<html><head><meta charset="utf-8"><title>${escape(title)}</title></head>\n` +
+        `<body><h1>${escape(title)}</h1>\n${sections.join('\n')}\n</body></html>\n`
+    );
+};
@@ -1,6 +1,21 @@
-import { describe, expect, it } from 'vitest';
-import { fail, failure, success } from './results';
+import { assertType, describe, expect, it } from 'vitest';
+import {
+    fail,
+    failure,
+    fromTuple,
+    isFailure,
+    isSuccess,
+    mapResult,
+    merge,
+    step,
+    success,
+    toTuple,
+    unwrap,
+} from './results';
 import { run } from './core';
+import { literal } from './terminals';
+import { optional } from './combinators';
+import { Failure, ParseResult } from './types';
 
 describe('results', () => {
     describe('success and failure helpers', () => {
@@ -10,10 +25,17 @@ describe('results', () => {
         });
     });
 
+    describe('step', () => {
+        it('should create a result pointing at the cursor', () => {
+            const cursor = { source: 'remaining', offset: 2 };
+            expect(step('test', cursor)).toEqual(['test', cursor]);
+        });
+    });
+
     describe('failure', () => {
         it('should create failed parse result', () => {
             const result = failure();
-            expect(result).toBeNull();
+            expect(result).toEqual({ offset: undefined, expected: [] });
         });
     });
 
@@ -23,4 +45,112 @@ describe('results', () => {
             expect(result).toBeNull();
         });
     });
+
+    describe('isSuccess and isFailure', () => {
+        it('should tell results apart', () => {
+            expect(isSuccess(success('test', ''))).toBe(true);
+            expect(isFailure(success('test', ''))).toBe(false);
+            expect(isSuccess(failure(0))).toBe(false);
+            expect(isFailure(failure(0))).toBe(true);
+        });
+
+        it('should tell object results apart', () => {
+            const result: ParseResult<string> = fromTuple(success('a', ''));
+
+            expect(isSuccess(result)).toBe(true);
+            expect(isSuccess(fromTuple(failure(0)))).toBe(false);
+
+            if (isSuccess(result)) {
+                assertType<string>(result.value);
+            }
+
+            expect(isFailure(result)).toBe(false);
+            expect(isFailure(fromTuple(failure(0)))).toBe(true);
+
+            const failed: ParseResult<string> = fromTuple(failure(2, '"x"'));
+            if (isFailure(failed)) {
+                assertType<Failure>(failed.error);
+            }
+        });
+    });
+
+    describe('fromTuple and toTuple', () => {
+        it('should convert tuple results to object results', () => {
+            expect(fromTuple(success('a', 'rest'))).toEqual({
+                ok: true,
+                value: 'a',
+                rest: 'rest',
+            });
+            expect(fromTuple(failure(1, '"b"'))).toEqual({
+                ok: false,
+                error: failure(1, '"b"'),
+            });
+        });
+
+        it('should keep null values apart from failures', () => {
+            const result = fromTuple(optional(literal('a'))('b'));
+
+            expect(result).toEqual({ ok: true, value: null, rest: 'b' });
+        });
+
+        it('should convert object results back to tuples', () => {
+            for (const tuple of [success('a', 'rest'), failure(1, '"b"')]) {
+                expect(toTuple(fromTuple(tuple))).toEqual(tuple);
+            }
+        });
+    });
+
+    describe('unwrap', () => {
+        it('should return the value of a success', () => {
+            expect(unwrap(fromTuple(success(1, '')))).toBe(1);
+        });
+
+        it('should throw for a failure', () => {
+            const result = fromTuple(literal('a')('xyz'));
+
+            expect(() => unwrap(result)).toThrow(
+                'Parse failed at offset 0, expected "a"',
+            );
+        });
+    });
+
+    describe('mapResult', () => {
+        it('should transform the value of a success', () => {
+            const result = mapResult(fromTuple(success('2', 'x')), Number);
+
+            expect(result).toEqual({ ok: true, value: 2, rest: 'x' });
+            assertType<ParseResult<number>>(result);
+        });
+
+        it('should pass failures through', () => {
+            const failed = fromTuple<string>(failure(0));
+
+            expect(mapResult(failed, Number)).toBe(failed);
+        });
+    });
+
+    describe('merge', () => {
+        it('should prefer the failure that got further', () => {
+            const near = failure(0, '"a"');
+            const far = failure(2, '"c"');
+
+            expect(merge(near, far)).toBe(far);
+            expect(merge(far, near)).toBe(far);
+        });
+
+        it('should merge expected items of failures at the same position', () => {
+            const result = merge(
+                failure(3, '","', '"]"'),
+                failure(3, '"]"', '"}"'),
+            );
+
+            expect(result).toEqual(failure(3, '","', '"]"', '"}"'));
+        });
+
+        it('should prefer failures with a known position', () => {
+            const known = failure(0, '"a"');
+
+            expect(merge(failure(), known)).toBe(known);
+        });
+    });
 });
@@ -1,11 +1,91 @@
-import { Failure, Success } from './types';
+import {
+    Cursor,
+    Failure,
+    ParseFailure,
+    ParseResult,
+    ParseSuccess,
+    Result,
+    Step,
+    Success,
+} from './types';
 import { create } from './combinators';
+import { listExpected } from './errors';
 
 export const success = <T>(value: T, remaining: string): Success<T> => [
     value,
     remaining,
 ];
 
-export const failure = (): Failure => null;
+export const step = <T>(value: T, cursor: Cursor): Step<T> => [value, cursor];
+
+export const failure = (offset?: number, ...expected: string[]): Failure => ({
+    offset,
+    expected,
+});
 
 export const fail = <T>() => create<T>(() => failure());
+
+/**
+ * narrows tuple and object results alike
+ */
+export function isSuccess<T>(result: ParseResult<T>): result is ParseSuccess<T>;
+export function isSuccess<R>(result: R | Failure): result is R;
+export function isSuccess(result: unknown) {
+    return Array.isArray(result) || (result as { ok?: unknown }).ok === true;
+}
+
+export function isFailure<T>(result: ParseResult<T>): result is ParseFailure;
+export function isFailure<R>(result: R | Failure): result is Failure;
+export function isFailure(result: unknown) {
+    return !Array.isArray(result) && (result as { ok?: unknown }).ok !== true;
+}
+
+/**
+ * the failure that got further into the input wins
+ * on a tie, the expected items of both are merged
+ */
+export const merge = (a: Failure, b: Failure): Failure => {
+    const distance = (f: Failure) => f.offset ?? -Infinity;
+
+    if (distance(a) > distance(b)) {
+        return a;
+    }
+
+    if (distance(b) > distance(a)) {
+        return b;
+    }
+
+    return {
+        offset: a.offset,
+        expected: [...new Set([...a.expected, ...b.expected])],
+    };
+};
+
+export const fromTuple = <T>(result: Result<T>): ParseResult<T> =>
+    isFailure(result)
+        ? { ok: false, error: result }
+        : { ok: true, value: result[0], rest: result[1] };
+
+export const toTuple = <T>(result: ParseResult<T>): Result<T> =>
+    result.ok ? success(result.value, result.rest) : result.error;
+
+/**
+ * the value of a successful result, throws for a failed one
+ */
+export const unwrap = <T>(result: ParseResult<T>): T => {
+    if (!result.ok) {
+        const { offset = 0, expected } = result.error;
+
+        throw new Error(
+            `Parse failed at offset ${offset}${listExpected(expected)}`,
+        );
+    }
+
+    return result.value;
+};
+
+export const mapResult = <T, U>(
+    result: ParseResult<T>,
+    transform: (value: T) => U,
+): ParseResult<U> =>
+    result.ok ? { ...result, value: transform(result.value) } : result;
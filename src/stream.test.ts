@@ -0,0 +1,365 @@
+import { Readable } from 'node:stream';
+import { assertType, describe, expect, it } from 'vitest';
+import { feed, parseAll, parseAllAsync, stream } from './stream';
+import { define, invoke, left, map, optional, sequence } from './combinators';
+import { char, literal, regex } from './terminals';
+import { digit } from './primitives';
+import { ParseError } from './types';
+
+const number = map(left(regex(/\d+/), optional(char(','))), Number);
+
+describe('stream', () => {
+    describe('feed', () => {
+        it('should emit records as soon as they are complete', () => {
+            const records: number[] = [];
+            const input = feed(number, (record) => records.push(record));
+
+            input.write('12,3');
+            expect(records).toEqual([12]);
+
+            input.write('4,5');
+            expect(records).toEqual([12, 34]);
+
+            input.write('6,');
+            expect(records).toEqual([12, 34]);
+
+            expect(input.end()).toBe(true);
+            expect(records).toEqual([12, 34, 56]);
+        });
+
+        it('should retry records failing at the end with more input', () => {
+            const records: string[] = [];
+            const quoted = left(
+                regex(/"[^"]*/),
+                sequence(char('"'), char('\n')),
+            );
+            const input = feed(quoted, (record) => records.push(record));
+
+            input.write('"split\n');
+            expect(records).toEqual([]);
+
+            input.write('line"\n"b"\n');
+            expect(input.end()).toBe(true);
+            expect(records).toEqual(['"split\nline', '"b']);
+        });
+
+        it('should retry records split inside a terminal', () => {
+            const records: string[] = [];
+            const word = left(literal('hello'), literal('\n'));
+            const decimal = left(regex(/\d+\.\d+/), char('\n'));
+            const words = feed(word, (record) => records.push(record));
+            const decimals = feed(decimal, (record) => records.push(record));
+
+            words.write('hel');
+            words.write('lo\n');
+            decimals.write('12.');
+            decimals.write('5\n');
+
+            expect(words.end()).toBe(true);
+            expect(decimals.end()).toBe(true);
+            expect(records).toEqual(['hello', '12.5']);
+        });
+
+        it('should report failures more input cannot change right away', () => {
+            const records: number[] = [];
+            const errors: ParseError[] = [];
+            const input = feed(
+                left(digit, char('\n')),
+                (record) => records.push(record),
+                {
+                    onError: (error) => errors.push(error),
+                },
+            );
+
+            expect(input.write('1\n2\nBAD\n')).toBe(false);
+            expect(records).toEqual([1, 2]);
+            expect(errors).toEqual([
+                expect.objectContaining({ offset: 4, line: 3, column: 1 }),
+            ]);
+
+            expect(input.write('3\n')).toBe(false);
+            expect(input.end()).toBe(false);
+            expect(records).toEqual([1, 2]);
+            expect(errors).toHaveLength(1);
+        });
+
+        it('should parse long records in linear time', () => {
+            let calls = 0;
+            const line = left(regex(/[^\n]*/), char('\n'));
+            const counted = define((cursor) => {
+                calls++;
+
+                return invoke(line, cursor);
+            });
+            const records: string[] = [];
+            const input = feed(counted, (record) => records.push(record));
+
+            for (let i = 0; i < 1000; i++) {
+                input.write('x');
+            }
+
+            input.write('\n');
+            expect(input.end()).toBe(true);
+            expect(records).toEqual(['x'.repeat(1000)]);
+            expect(calls).toBeLessThan(30);
+        });
+
+        it('should decode bytes split inside a character', () => {
+            const records: string[] = [];
+            const line = left(regex(/[^\n]+/), char('\n'));
+            const input = feed(line, (record) => records.push(record));
+            const bytes = new TextEncoder().encode('über\n€\n');
+
+            for (const byte of bytes) {
+                input.write(Uint8Array.of(byte));
+            }
+
+            expect(input.end()).toBe(true);
+            expect(records).toEqual(['über', '€']);
+        });
+
+        it('should allow trailing whitespace', () => {
+            const records: number[] = [];
+            const input = feed(number, (record) => records.push(record));
+
+            input.write('1,2 \n');
+
+            expect(input.end()).toBe(true);
+            expect(records).toEqual([1, 2]);
+        });
+
+        it('should report errors relative to the whole input', () => {
+            const errors: ParseError[] = [];
+            const line = left(regex(/[a-z]/), char('\n'));
+            const input = feed(line, () => {}, {
+                onError: (error) => errors.push(error),
+            });
+
+            input.write('a\nb\n');
+            input.write('c\nd!');
+
+            expect(input.end()).toBe(false);
+            expect(errors).toEqual([
+                expect.objectContaining({
+                    offset: 7,
+                    line: 4,
+                    column: 2,
+                    expected: ['"\\n"'],
+                }),
+            ]);
+        });
+
+        it('should report input the parser does not consume', () => {
+            const errors: ParseError[] = [];
+            const input = feed(optional(number), () => {}, {
+                onError: (error) => errors.push(error),
+            });
+
+            input.write('1,x');
+
+            expect(input.end()).toBe(false);
+            expect(errors[0]).toMatchObject({
+                offset: 2,
+                expected: ['end of input'],
+            });
+        });
+
+        it('should reject writes after the end', () => {
+            const input = feed(number, () => {});
+            input.end();
+
+            expect(() => input.write('1')).toThrow();
+        });
+    });
+
+    describe('stream', () => {
+        it('should parse a node readable', async () => {
+            const records: number[] = [];
+            const source = Readable.from(['1', '0,2', '0,', '30']);
+
+            expect(await stream(number, source, (n) => records.push(n))).toBe(
+                true,
+            );
+            expect(records).toEqual([10, 20, 30]);
+        });
+
+        it('should parse a web readable stream of bytes', async () => {
+            const records: number[] = [];
+            const encoder = new TextEncoder();
+            const source = new ReadableStream<Uint8Array>({
+                start: (controller) => {
+                    controller.enqueue(encoder.encode('7,'));
+                    controller.enqueue(encoder.encode('8'));
+                    controller.close();
+                },
+            });
+
+            expect(await stream(number, source, (n) => records.push(n))).toBe(
+                true,
+            );
+            expect(records).toEqual([7, 8]);
+        });
+
+        it('should stop reading after a failure', async () => {
+            const read: string[] = [];
+            async function* source() {
+                for (const chunk of [
+                    '1\n',
+                    'x\n',
+                    ...Array(1000).fill('2\n'),
+                ]) {
+                    read.push(chunk);
+                    yield chunk;
+                }
+            }
+
+            expect(
+                await stream(left(digit, char('\n')), source(), () => {}),
+            ).toBe(false);
+            expect(read).toEqual(['1\n', 'x\n']);
+        });
+    });
+
+    describe('parseAll', () => {
+        it('should yield each record lazily', () => {
+            const records = parseAll(number, '1,2,3');
+
+            expect(records.next()).toEqual({ value: 1, done: false });
+            expect([...records]).toEqual([2, 3]);
+            assertType<Generator<number, boolean>>(records);
+        });
+
+        it('should not parse past an early stop', () => {
+            const seen: number[] = [];
+            const traced = map(number, (n) => (seen.push(n), n));
+
+            for (const n of parseAll(traced, '1,2,3,4')) {
+                if (n === 2) {
+                    break;
+                }
+            }
+
+            expect(seen).toEqual([1, 2]);
+        });
+
+        it('should report input left after the last record', () => {
+            const errors: ParseError[] = [];
+            const records = parseAll(number, '1,2,x', {
+                onError: (error) => errors.push(error),
+            });
+
+            expect([...records]).toEqual([1, 2]);
+            expect(errors[0]).toMatchObject({
+                offset: 4,
+                expected: ['/\\d+/'],
+            });
+        });
+        it('should return whether the whole input was parsed', () => {
+            const outcome = (input: string) => {
+                const records = parseAll(number, input);
+                let next = records.next();
+                while (!next.done) {
+                    next = records.next();
+                }
+
+                return next.value;
+            };
+
+            expect(outcome('1,2 ')).toBe(true);
+            expect(outcome('1,x')).toBe(false);
+        });
+    });
+
+    describe('parseAllAsync', () => {
+        async function* chunks(...values: string[]) {
+            yield* values;
+        }
+
+        it('should yield records across chunks', async () => {
+            const records: number[] = [];
+            for await (const n of parseAllAsync(
+                number,
+                chunks('1', '2,3', ',4'),
+            )) {
+                records.push(n);
+            }
+
+            expect(records).toEqual([12, 3, 4]);
+        });
+
+        it('should only read chunks when records are asked for', async () => {
+            const read: string[] = [];
+            async function* source() {
+                for (const chunk of ['1,', '2,', '3,']) {
+                    read.push(chunk);
+                    yield chunk;
+                }
+            }
+
+            for await (const n of parseAllAsync(number, source())) {
+                if (n === 1) {
+                    break;
+                }
+            }
+
+            expect(read).toEqual(['1,', '2,']);
+        });
+
+        it('should cancel web streams on an early stop', async () => {
+            let cancelled = false;
+            const source = new ReadableStream<string>({
+                pull: (controller) => controller.enqueue('1,'),
+                cancel: () => {
+                    cancelled = true;
+                },
+            });
+
+            for await (const n of parseAllAsync(number, source)) {
+                expect(n).toBe(1);
+                break;
+            }
+
+            expect(cancelled).toBe(true);
+        });
+
+        it('should stop reading after a failure', async () => {
+            const read: string[] = [];
+            async function* source() {
+                for (const chunk of [
+                    '1\n',
+                    'x\n',
+                    ...Array(1000).fill('2\n'),
+                ]) {
+                    read.push(chunk);
+                    yield chunk;
+                }
+            }
+
+            const records: number[] = [];
+            for await (const n of parseAllAsync(
+                left(digit, char('\n')),
+                source(),
+            )) {
+                records.push(n);
+            }
+
+            expect(records).toEqual([1]);
+            expect(read).toEqual(['1\n', 'x\n']);
+        });
+
+        it('should return whether the whole input was parsed', async () => {
+            const outcome = async (...values: string[]) => {
+                const records = parseAllAsync(number, chunks(...values));
+                let next = await records.next();
+                while (!next.done) {
+                    next = await records.next();
+                }
+
+                return next.value;
+            };
+
+            expect(await outcome('1,', '2')).toBe(true);
+            expect(await outcome('1,', 'x')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,232 @@
+import {
+    ChunkSource,
+    Cursor,
+    Feed,
+    ParserFunction,
+    Position,
+    Reply,
+    StreamOptions,
+} from './types';
+import { invoke } from './combinators';
+import { failure, isFailure } from './results';
+import { report } from './errors';
+import { begin } from './cursor';
+import { locate, shift } from './position';
+
+const trailing = /\s*/y;
+
+/**
+ * the failure to report when records stop before the end of the source
+ */
+const settle = <T>(result: Reply<T>, source: string, offset: number) => {
+    trailing.lastIndex = offset;
+    trailing.exec(source);
+    if (trailing.lastIndex === source.length) {
+        return null;
+    }
+
+    return isFailure(result)
+        ? result
+        : failure(trailing.lastIndex, 'end of input');
+};
+
+/**
+ * parses records from input written in chunks, calling onRecord for each one
+ * a record is complete once it is followed by more input, or the input ends,
+ * so records split across chunks are parsed when their rest arrives
+ * a failing record that looked at the end of the buffered input is retried
+ * with more input, once more input cannot change a failure it is reported and
+ * write returns false, dropping the rest of the input
+ * a record that failed for the lack of input is parsed again when a chunk
+ * brings a line break or its input has doubled, so long records spanning many
+ * chunks are not parsed quadratically
+ */
+export const feed = <T>(
+    parser: ParserFunction<T>,
+    onRecord: (record: T) => void,
+    options: StreamOptions = {},
+): Feed => {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let pending = 0;
+    let parsed = false;
+    let origin: Position = { offset: 0, line: 1, column: 1 };
+    let failed = false;
+    let ended = false;
+
+    const drain = (done: boolean) => {
+        let offset = 0;
+        parsed = false;
+
+        while (true) {
+            // a context per record, so its reach is the record's own
+            const cursor = { ...begin(buffer), offset };
+            const result = invoke(parser, cursor);
+            if (isFailure(result) || result[1].offset === offset) {
+                const open =
+                    cursor.context.reach > buffer.length ||
+                    (isFailure(result) &&
+                        (result.offset ?? offset) >= buffer.length);
+                const error = settle(result, buffer, offset);
+                if (error && (done || !open)) {
+                    failed = true;
+                    options.onError?.(report(error, buffer, origin));
+                }
+
+                break;
+            }
+
+            const [record, next] = result;
+            if (!done && next.offset === buffer.length) {
+                parsed = true;
+                break;
+            }
+
+            onRecord(record);
+            offset = next.offset;
+        }
+
+        origin = shift(locate(buffer, offset), origin);
+        buffer = failed ? '' : buffer.slice(offset);
+        pending = buffer.length;
+    };
+
+    return {
+        write: (chunk) => {
+            if (ended) {
+                throw new Error('Cannot write to a feed after it has ended');
+            }
+
+            if (failed) {
+                return false;
+            }
+
+            const text =
+                typeof chunk === 'string'
+                    ? chunk
+                    : decoder.decode(chunk, { stream: true });
+            buffer += text;
+            if (parsed || text.includes('\n') || buffer.length >= 2 * pending) {
+                drain(false);
+            }
+
+            return !failed;
+        },
+        end: () => {
+            if (!ended && !failed) {
+                buffer += decoder.decode();
+                drain(true);
+            }
+
+            ended = true;
+
+            return !failed;
+        },
+    };
+};
+
+async function* chunks(source: ChunkSource) {
+    if (!('getReader' in source)) {
+        yield* source;
+
+        return;
+    }
+
+    const reader = source.getReader();
+    let done = false;
+    try {
+        while (true) {
+            const chunk = await reader.read();
+            if (chunk.done) {
+                done = true;
+
+                return;
+            }
+
+            yield chunk.value;
+        }
+    } finally {
+        if (!done) {
+            await reader.cancel();
+        }
+
+        reader.releaseLock();
+    }
+}
+
+/**
+ * feeds a node readable, a web readable stream or any async iterable of
+ * chunks into the parser, resolving whether the whole input was parsed
+ * the source is no longer read once a record failed
+ */
+export const stream = async <T>(
+    parser: ParserFunction<T>,
+    source: ChunkSource,
+    onRecord: (record: T) => void,
+    options: StreamOptions = {},
+) => {
+    const input = feed(parser, onRecord, options);
+
+    for await (const chunk of chunks(source)) {
+        if (!input.write(chunk)) {
+            break;
+        }
+    }
+
+    return input.end();
+};
+
+/**
+ * lazily yields each record of the input, stopping at the first failure
+ * input left over at that point is reported like in run, and the generator
+ * returns whether the whole input was parsed
+ */
+export function* parseAll<T>(
+    parser: ParserFunction<T>,
+    input: string,
+    options: StreamOptions = {},
+): Generator<T, boolean> {
+    let cursor: Cursor = begin(input);
+
+    while (true) {
+        const result = invoke(parser, cursor);
+        if (isFailure(result) || result[1].offset === cursor.offset) {
+            const error = settle(result, input, cursor.offset);
+            if (error) {
+                options.onError?.(report(error, input));
+            }
+
+            return !error;
+        }
+
+        yield result[0];
+        cursor = result[1];
+    }
+}
+
+/**
+ * yields records from chunked input as they complete, see feed
+ * chunks are only read when the next record is asked for and no longer once
+ * a record failed, and the generator returns whether the whole input was parsed
+ */
+export async function* parseAllAsync<T>(
+    parser: ParserFunction<T>,
+    source: ChunkSource,
+    options: StreamOptions = {},
+): AsyncGenerator<T, boolean> {
+    const records: T[] = [];
+    const input = feed(parser, (record) => records.push(record), options);
+
+    for await (const chunk of chunks(source)) {
+        const writable = input.write(chunk);
+        yield* records.splice(0);
+        if (!writable) {
+            break;
+        }
+    }
+
+    const parsed = input.end();
+    yield* records.splice(0);
+
+    return parsed;
+}
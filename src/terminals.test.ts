@@ -1,5 +1,7 @@
 import { assertType, describe, expect, it } from 'vitest';
-import { char, literal, regex } from './terminals';
+import { char, literal, regex, stickySource } from './terminals';
+import { failure } from './results';
+import { sequence } from './combinators';
 import { Result } from './types';
 
 describe('terminals', () => {
@@ -15,7 +17,7 @@ describe('terminals', () => {
         it('should fail when string does not match', () => {
             const parser = literal('test');
             const result = parser('hello');
-            expect(result).toBeNull();
+            expect(result).toEqual(failure(0, '"test"'));
 
             assertType<Result<'test' | null>>(result);
         });
@@ -47,7 +49,7 @@ describe('terminals', () => {
         it('should fail when pattern does not match at beginning', () => {
             const parser = regex(/\d+/);
             const result = parser('abc123');
-            expect(result).toBeNull();
+            expect(result).toEqual(failure(0, '/\\d+/'));
 
             assertType<Result<string | null>>(result);
         });
@@ -60,6 +62,33 @@ describe('terminals', () => {
             assertType<Result<string | null>>(result);
         });
 
+        it('should match anchored patterns past the start of input', () => {
+            const parser = sequence(literal('a'), regex(/^b+/));
+            const result = parser('abbc');
+            expect(result).toEqual([['a', 'bb'], 'c']);
+        });
+
+        it('should match anchored alternatives past the start of input', () => {
+            const parser = sequence(literal('x'), regex(/^a|^b/));
+
+            expect(parser('xb!')).toEqual([['x', 'b'], '!']);
+        });
+
+        it('should anchor patterns at the rest of the input', () => {
+            expect(sequence(literal('x'), regex(/a|^b/))('xb')).toEqual([
+                ['x', 'b'],
+                '',
+            ]);
+            expect(sequence(literal('x'), regex(/(?<!x)a/))('xa')).toEqual([
+                ['x', 'a'],
+                '',
+            ]);
+            expect(sequence(literal('x'), regex(/\bfoo/))('xfoo')).toEqual([
+                ['x', 'foo'],
+                '',
+            ]);
+        });
+
         it('should handle empty matches', () => {
             const parser = regex(/\d*/);
             const result = parser('abc');
@@ -75,6 +104,23 @@ describe('terminals', () => {
         });
     });
 
+    describe('stickySource', () => {
+        it('should strip the anchors of every alternative', () => {
+            expect(stickySource(/\d+/)).toBe('\\d+');
+            expect(stickySource(/^a|^(b|c)/)).toBe('a|(b|c)');
+            expect(stickySource(/^[^a]|^\^/)).toBe('[^a]|\\^');
+        });
+
+        it('should leave anchors that depend on the input start', () => {
+            expect(stickySource(/a|^b/)).toBeNull();
+            expect(stickySource(/a^/m)).toBeNull();
+            expect(stickySource(/(?<=a)b/)).toBeNull();
+            expect(stickySource(/\bfoo/)).toBeNull();
+            expect(stickySource(/a\B/)).toBeNull();
+            expect(stickySource(/[\b]a/)).toBe('[\\b]a');
+        });
+    });
+
     describe('char', () => {
         it('should match single character', () => {
             const parser = char('a');
@@ -87,7 +133,7 @@ describe('terminals', () => {
         it('should fail when character does not match', () => {
             const parser = char('a');
             const result = parser('bcd');
-            expect(result).toBeNull();
+            expect(result).toEqual(failure(0, '"a"'));
 
             assertType<Result<'a' | null>>(result);
         });
@@ -95,7 +141,7 @@ describe('terminals', () => {
         it('should fail on empty input', () => {
             const parser = char('a');
             const result = parser('');
-            expect(result).toBeNull();
+            expect(result).toEqual(failure(0, '"a"'));
 
             assertType<Result<'a' | null>>(result);
         });
@@ -1,26 +1,112 @@
-import { failure, success } from './results';
-import { create } from './combinators';
+import { failure, step } from './results';
+import { define } from './combinators';
+import { advance, reach } from './cursor';
 
 export const literal = <S extends string>(str: S) => {
-    return create<S>((input) =>
-        input.startsWith(str)
-            ? success(str, input.slice(str.length))
-            : failure(),
+    return define<S>((cursor) => {
+        reach(cursor, cursor.offset + str.length);
+
+        return cursor.source.startsWith(str, cursor.offset)
+            ? step(str, advance(cursor, str.length))
+            : failure(cursor.offset, JSON.stringify(str));
+    },
+        `literal(${JSON.stringify(str)})`,
+        { kind: 'literal', text: str },
     );
 };
 
+/**
+ * the pattern source to match at the cursor with the sticky flag, without
+ * the ^ that starts each alternative, or null when anchors, lookbehinds or
+ * word boundaries depend on where the input starts, which only a slice of it
+ * can tell
+ */
+export const stickySource = (pattern: RegExp) => {
+    const { source } = pattern;
+    const anchors: number[] = [];
+    const starts = [0];
+    let depth = 0;
+    let inClass = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const c = source[i];
+        if (c === '\\') {
+            i++;
+            if (!inClass && (source[i] === 'b' || source[i] === 'B')) {
+                return null;
+            }
+        } else if (inClass) {
+            inClass = c !== ']';
+        } else if (c === '[') {
+            inClass = true;
+        } else if (c === '^') {
+            anchors.push(i);
+        } else if (c === '(') {
+            if (/^\(\?<[=!]/.test(source.slice(i, i + 4))) {
+                return null;
+            }
+
+            depth++;
+        } else if (c === ')') {
+            depth--;
+        } else if (c === '|' && depth === 0) {
+            starts.push(i + 1);
+        }
+    }
+
+    if (anchors.length === 0) {
+        return source;
+    }
+
+    const stripped =
+        anchors.length === starts.length &&
+        anchors.every((anchor, i) => anchor === starts[i]);
+
+    return stripped
+        ? source
+              .split('')
+              .filter((_, i) => !anchors.includes(i))
+              .join('')
+        : null;
+};
+
 export const regex = (pattern: RegExp) => {
     if (pattern.global) {
         throw new Error('Global flag is not supported in regex parsers');
     }
 
-    return create<string>((input) => {
-        const match = input.match(pattern);
+    // matching is anchored at the cursor by the sticky flag, patterns that
+    // stickySource cannot turn into one are matched on the rest of the input
+    const source = stickySource(pattern);
+    const sticky = new RegExp(
+        source ?? pattern.source,
+        pattern.sticky ? pattern.flags : pattern.flags + 'y',
+    );
 
-        return match && match.index === 0
-            ? success(match[0], input.slice(match[0].length))
-            : failure();
-    });
+    return define<string>(
+        (cursor) => {
+            const input =
+                source === null
+                    ? cursor.source.slice(cursor.offset)
+                    : cursor.source;
+            sticky.lastIndex = source === null ? 0 : cursor.offset;
+            const match = sticky.exec(input);
+            // a failing pattern may have needed more input, a match is taken to
+            // look one character past its end, like a record in feed
+            reach(
+                cursor,
+                match
+                    ? cursor.offset + match[0].length + 1
+                    : cursor.source.length + 1,
+            );
+
+            return match
+                ? step(match[0], advance(cursor, match[0].length))
+                : failure(cursor.offset, String(pattern));
+        },
+        `regex(${pattern})`,
+        { kind: 'regex', pattern },
+    );
 };
 
 type Char<S extends string = string> =
@@ -32,9 +118,14 @@ export const char = <S extends string>(expected: Char<S>) => {
         throw new Error('char expects one character, but got ' + expected as string);
     }
 
-    return create<S>((input) =>
-        input.length > 0 && input[0] === expected
-            ? success(expected, input.slice(1))
-            : failure(),
+    return define<S>((cursor) => {
+        reach(cursor, cursor.offset + 1);
+
+        return cursor.source[cursor.offset] === expected
+            ? step(expected, advance(cursor, 1))
+            : failure(cursor.offset, JSON.stringify(expected));
+    },
+        `char(${JSON.stringify(expected)})`,
+        { kind: 'char', text: expected },
     );
 };
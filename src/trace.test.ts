@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { traceTree } from './trace';
+import { grammar, run } from './core';
+import { choice, sequence } from './combinators';
+import { char, literal } from './terminals';
+import { TraceEvent } from './types';
+
+describe('trace', () => {
+    type Grammar = {
+        statement: unknown;
+        keyword: 'let' | 'const';
+    };
+
+    const { statement } = grammar<Grammar>({
+        statement: ({ keyword }) => sequence(keyword, char(';')),
+        keyword: () => choice(literal('let'), literal('const')),
+    });
+
+    it('should collect enter and exit events into an array', () => {
+        const events: TraceEvent[] = [];
+        run(statement, 'const;', { trace: events });
+
+        expect(
+            events.map(({ type, name, depth }) => [type, name, depth]),
+        ).toEqual([
+            ['enter', 'statement', 0],
+            ['enter', 'sequence', 1],
+            ['enter', 'keyword', 2],
+            ['enter', 'choice', 3],
+            ['enter', 'literal("let")', 4],
+            ['failure', 'literal("let")', 4],
+            ['enter', 'literal("const")', 4],
+            ['success', 'literal("const")', 4],
+            ['success', 'choice', 3],
+            ['success', 'keyword', 2],
+            ['enter', 'char(";")', 2],
+            ['success', 'char(";")', 2],
+            ['success', 'sequence', 1],
+            ['success', 'statement', 0],
+        ]);
+    });
+
+    it('should report position, consumed text and expected items', () => {
+        const events: TraceEvent[] = [];
+        run(statement, 'let!', { trace: events });
+
+        expect(events).toContainEqual({
+            type: 'success',
+            name: 'keyword',
+            depth: 2,
+            position: { offset: 0, line: 1, column: 1 },
+            consumed: 'let',
+        });
+        expect(events).toContainEqual({
+            type: 'failure',
+            name: 'char(";")',
+            depth: 2,
+            position: { offset: 3, line: 1, column: 4 },
+            expected: ['";"'],
+        });
+    });
+
+    it('should pass events to a callback', () => {
+        const names: string[] = [];
+        run(literal('a'), 'a', {
+            trace: (event) => names.push(`${event.type} ${event.name}`),
+        });
+
+        expect(names).toEqual(['enter literal("a")', 'success literal("a")']);
+    });
+
+    it('should print an indented tree', () => {
+        const lines: string[] = [];
+        run(choice(literal('a'), literal('b')), 'b', {
+            trace: traceTree((line) => lines.push(line)),
+        });
+
+        expect(lines).toEqual([
+            'choice @1:1',
+            '  literal("a") @1:1',
+            '  ✗ literal("a") expected "a"',
+            '  literal("b") @1:1',
+            '  ✓ literal("b") "b"',
+            '✓ choice "b"',
+        ]);
+    });
+});
@@ -0,0 +1,70 @@
+import { Context, Cursor, Reply, TraceEvent, TraceSink } from './types';
+import { isFailure } from './results';
+import { locate } from './position';
+
+/**
+ * runs the parse function between enter and exit events
+ */
+export const traced = <T>(
+    parse: (cursor: Cursor) => Reply<T>,
+    name: string,
+    cursor: Cursor,
+    context: Context,
+): Reply<T> => {
+    const sink = context.trace;
+    if (!sink) {
+        return parse(cursor);
+    }
+
+    const depth = context.depth;
+    const position = locate(cursor.source, cursor.offset, context);
+
+    sink({ type: 'enter', name, depth, position });
+
+    context.depth++;
+    const result = parse(cursor);
+    context.depth--;
+
+    if (isFailure(result)) {
+        sink({
+            type: 'failure',
+            name,
+            depth,
+            position,
+            expected: result.expected,
+        });
+    } else {
+        const rest = result[1];
+        const consumed =
+            rest.source === cursor.source
+                ? cursor.source.slice(cursor.offset, rest.offset)
+                : '';
+
+        sink({ type: 'success', name, depth, position, consumed });
+    }
+
+    return result;
+};
+
+export const toSink = (trace: TraceSink | TraceEvent[]): TraceSink =>
+    Array.isArray(trace) ? (event) => trace.push(event) : trace;
+
+/**
+ * prints every event as one line, indented by its depth
+ */
+export const traceTree =
+    (write: (line: string) => void = console.log): TraceSink =>
+    ({ type, name, depth, position, consumed, expected }) => {
+        const indent = '  '.repeat(depth);
+        const at = `${position.line}:${position.column}`;
+
+        if (type === 'enter') {
+            write(`${indent}${name} @${at}`);
+        } else if (type === 'success') {
+            write(`${indent}✓ ${name} ${JSON.stringify(consumed)}`);
+        } else {
+            write(
+                `${indent}✗ ${name} expected ${expected?.join(', ') || 'nothing'}`,
+            );
+        }
+    };
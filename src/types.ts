@@ -1,13 +1,245 @@
-export type Parser<T = unknown> = (input: string) => Result<T>;
+export type Parser<T = unknown> = ParserFunction<T> & {
+    [Symbol.iterator](): Iterator<Parser<T>, T, unknown>;
+};
+
+export type ParserFunction<T = unknown> = {
+    (input: string): Result<T>;
+    readonly parse?: (cursor: Cursor) => Reply<T>;
+    readonly displayName?: string;
+    readonly meta?: Meta;
+};
+
+export type Meta = {
+    readonly kind: string;
+    readonly children?: readonly ParserFunction[];
+    readonly text?: string;
+    readonly pattern?: RegExp;
+    readonly name?: string;
+    readonly min?: number;
+    readonly max?: number;
+    readonly trailing?: Trailing;
+};
+
+export type Inspection = Meta & {
+    readonly displayName?: string;
+    readonly children: readonly ParserFunction[];
+};
+
+export type Expression =
+    | { readonly type: 'terminal'; readonly text: string }
+    | { readonly type: 'pattern'; readonly pattern: RegExp }
+    | { readonly type: 'reference'; readonly name: string }
+    | { readonly type: 'special'; readonly text: string }
+    | { readonly type: 'sequence'; readonly items: readonly Expression[] }
+    | { readonly type: 'choice'; readonly options: readonly Expression[] }
+    | { readonly type: 'optional'; readonly item: Expression }
+    | { readonly type: 'repeat'; readonly item: Expression; readonly min: 0 | 1 };
 
 export type Result<T> = Success<T> | Failure;
 
 export type Success<T> = readonly [T, string];
 
-export type Failure = null;
+export type ParseResult<T> = ParseSuccess<T> | ParseFailure;
+
+export type ParseSuccess<T> = {
+    readonly ok: true;
+    readonly value: T;
+    readonly rest: string;
+};
+
+export type ParseFailure = {
+    readonly ok: false;
+    readonly error: Failure;
+};
+
+export type Cursor = {
+    readonly source: string;
+    readonly offset: number;
+    readonly context?: Context;
+    readonly diagnostics?: Diagnostics;
+};
+
+export type Context = {
+    readonly source: string;
+    readonly memo: Map<object, Map<number, Reply<unknown>>>;
+    readonly stats: MemoStats;
+    readonly rules: RuleFrame[];
+    readonly active: Map<object, Map<number, RuleFrame>>;
+    readonly trace?: TraceSink;
+    depth: number;
+    reach: number;
+    lineStarts?: number[];
+};
+
+export type RuleFrame = {
+    seed: Reply<unknown>;
+    recursive: boolean;
+    readonly involved: Set<RuleFrame>;
+};
+
+export type MemoStats = Record<string, { hits: number; misses: number }>;
+
+export type Reply<T> = Step<T> | Failure;
+
+export type Step<T> = readonly [T, Cursor];
+
+export type Failure = {
+    readonly offset?: number;
+    readonly expected: readonly string[];
+    readonly fatal?: boolean;
+};
+
+export type Position = {
+    readonly offset: number;
+    readonly line: number;
+    readonly column: number;
+};
+
+export type Located<T> = {
+    readonly value: T;
+    readonly start: Position;
+    readonly end: Position;
+};
+
+export type ParseError = Position & {
+    readonly expected: readonly string[];
+    readonly message: string;
+};
+
+export type Diagnostics = {
+    readonly error: ParseError;
+    readonly previous?: Diagnostics;
+};
+
+export type Recovered = {
+    readonly error: ParseError;
+    readonly skipped: string;
+};
+
+export type TraceEvent = {
+    readonly type: 'enter' | 'success' | 'failure';
+    readonly name: string;
+    readonly depth: number;
+    readonly position: Position;
+    readonly consumed?: string;
+    readonly expected?: readonly string[];
+};
+
+export type TraceSink = (event: TraceEvent) => void;
+
+export type RunOptions = {
+    onError?: (error: ParseError) => void;
+    onMemoStats?: (stats: MemoStats) => void;
+    trace?: TraceSink | TraceEvent[];
+    strict?: boolean;
+    trailing?: ParserFunction<unknown>;
+    partial?: boolean;
+    result?: boolean;
+};
+
+export type RunResult<T> =
+    | {
+          readonly ok: true;
+          readonly value: T;
+          readonly offset: number;
+          readonly diagnostics: readonly ParseError[];
+      }
+    | {
+          readonly ok: false;
+          readonly error: ParseError;
+          readonly diagnostics: readonly ParseError[];
+      };
+
+export type PartialRun<T> = {
+    readonly value: T;
+    readonly offset: number;
+};
+
+export type StreamOptions = {
+    onError?: (error: ParseError) => void;
+};
+
+export type ChunkSource =
+    | AsyncIterable<string | Uint8Array>
+    | ReadableStream<string | Uint8Array>;
+
+export type Feed = {
+    write: (chunk: string | Uint8Array) => boolean;
+    end: () => boolean;
+};
+
+export type GrammarOptions = {
+    memoize?: boolean;
+};
 
 export type Grammar<T extends Record<string, unknown>> = {
-    [K in keyof T]: (parsers: { [P in keyof T]: Parser<T[P]> }) => Parser<T[K]>;
+    [K in keyof T]: (parsers: { [P in keyof T]: Parser<T[P]> }) => ParserFunction<T[K]>;
+};
+
+export type LintIssue = {
+    readonly type:
+        | 'nullable-repetition'
+        | 'left-recursion'
+        | 'undefined-rule'
+        | 'unused-rule'
+        | 'shadowed-alternative';
+    readonly rule: string;
+    readonly message: string;
+};
+
+export type LintOptions = {
+    readonly start?: string;
+};
+
+export type PegActions = {
+    readonly [rule: string]: (value: unknown, text: string) => unknown;
+};
+
+export type JsonValue =
+    | null
+    | boolean
+    | number
+    | string
+    | JsonValue[]
+    | { [key: string]: JsonValue };
+
+export type JsonRules = {
+    text: JsonValue;
+    value: JsonValue;
+    object: { [key: string]: JsonValue };
+    member: [string, JsonValue];
+    array: JsonValue[];
+    string: string;
+    number: number;
+    literal: boolean | null;
+};
+
+export type CsvOptions = {
+    delimiter?: string;
+    quote?: string;
+    header?: boolean;
+};
+
+export type Trailing = 'forbidden' | 'allowed' | 'required';
+
+export type SepByOptions = {
+    trailing?: Trailing;
+    min?: number;
+    max?: number;
+    keep?: boolean;
+};
+
+export type Separated<T, S, O extends SepByOptions> = O extends { keep: true }
+    ? (T | S)[]
+    : T[];
+
+export type Associativity = 'left' | 'right' | 'none';
+
+export type OperatorLevel<T> = {
+    readonly prefix?: Record<string, (operand: T) => T>;
+    readonly postfix?: Record<string, (operand: T) => T>;
+    readonly infix?: Record<string, (left: T, right: T) => T>;
+    readonly associativity?: Associativity;
 };
 
 export type Char<S extends string = string> =
@@ -40,7 +272,8 @@ export type Last<T extends readonly unknown[]> = T extends readonly [
     ? L
     : never;
 
-export type Digit<T extends string> = T extends '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9'
+export type Digit<T extends string> = T extends
+    '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9'
     ? true
     : false;
 